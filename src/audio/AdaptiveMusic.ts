@@ -0,0 +1,213 @@
+import type { AudioEngine } from './AudioEngine';
+import EarthAtmosphereHeightMap from '../objects/EarthAtmosphereHeightMap';
+
+/**
+ * AdaptiveMusic - 随高度分层叠加的合成音乐
+ *
+ * - 一个 16 步的音序器循环演奏 A 小调和弦进行 (Am - F - C - G)
+ * - 各声部 (stem) 随虚拟海拔淡入：高度映射与天空渐变相同 (EarthAtmosphereHeightMap)，
+ *   所以音乐和画面在同一个大气层一起变化
+ * - 地面蓄力 (GROUND_CHARGING) 时，紧张层的音量和音高跟随 chargeProximity 上升
+ * - 子弹时间：低通滤波 + 节奏/音高随 AudioEngine 的 pitch 变慢
+ */
+
+export interface MusicInput {
+    heightM: number;            // Player height (game meters)
+    chargeProximity: number;    // 0..1 while GROUND_CHARGING, otherwise 0
+    bulletTime: boolean;
+}
+
+type StemId = 'pad' | 'bass' | 'arp' | 'drums' | 'lead' | 'tension';
+
+/** Virtual altitude (km) where each stem starts fading in and where it is at full volume */
+const STEM_FADE_KM: Record<Exclude<StemId, 'tension'>, [number, number]> = {
+    pad: [0, 0],        // Always on
+    bass: [1, 6],       // Troposphere
+    arp: [8, 20],       // Tropopause -> stratosphere
+    drums: [25, 50],    // Upper stratosphere
+    lead: [70, 100],    // Mesosphere -> near space
+};
+
+const BPM = 112;
+const STEPS_PER_BAR = 16;
+const SCHEDULE_AHEAD = 0.12;        // Seconds of notes scheduled in advance
+const STEM_FADE_TIME = 0.6;         // Altitude fade smoothing (s)
+const TENSION_FADE_TIME = 0.05;
+const OPEN_CUTOFF = 18000;          // Low-pass cutoff outside bullet time (Hz)
+const BULLET_TIME_CUTOFF = 650;
+
+// Am - F - C - G: chord tones as frequencies (Hz), root first
+const CHORDS = [
+    [110.0, 130.81, 164.81],
+    [87.31, 110.0, 130.81],
+    [130.81, 164.81, 196.0],
+    [98.0, 123.47, 146.83],
+];
+
+// Arp pattern: chord tone index per 16th (-1 = rest), octave up from the second half
+const ARP_PATTERN = [0, 1, 2, 1, 0, 1, 2, -1, 0, 2, 1, 2, 0, -1, 2, 1];
+const KICK_STEPS = new Set([0, 6, 8, 11]);
+const LEAD_MELODY: Array<[number, number]> = [[0, 2], [4, 1], [8, 0], [12, 1]];   // [step, chord tone]
+
+export class AdaptiveMusic {
+    private engine: AudioEngine;
+    private stems: Partial<Record<StemId, GainNode>> = {};
+    private filter: BiquadFilterNode | null = null;
+    private output: GainNode | null = null;
+
+    private nextStepTime: number = 0;
+    private step: number = 0;
+    private bar: number = 0;
+    private tensionLevel: number = 0;
+    private playing: boolean = false;
+
+    constructor(engine: AudioEngine) {
+        this.engine = engine;
+    }
+
+    /**
+     * Called every frame while the run is active
+     */
+    public update(input: MusicInput): void {
+        const ctx = this.engine.ctx;
+        if (!ctx || !this.ensureGraph(ctx)) return;
+
+        const now = ctx.currentTime;
+        if (!this.playing) {
+            this.playing = true;
+            this.nextStepTime = now + 0.05;
+            this.output!.gain.setTargetAtTime(1, now, STEM_FADE_TIME * 0.5);
+        }
+
+        // Stem volumes from altitude
+        const virtKm = EarthAtmosphereHeightMap.mapGameMetersToVirtualKm(input.heightM);
+        for (const [id, [from, to]] of Object.entries(STEM_FADE_KM) as Array<[StemId, [number, number]]>) {
+            const level = to <= from ? 1 : Math.max(0, Math.min(1, (virtKm - from) / (to - from)));
+            this.stems[id]!.gain.setTargetAtTime(level, now, STEM_FADE_TIME);
+        }
+
+        // Tension layer (squared so it only swells near the perfect window)
+        this.tensionLevel = input.chargeProximity * input.chargeProximity;
+        this.stems.tension!.gain.setTargetAtTime(this.tensionLevel, now, TENSION_FADE_TIME);
+
+        // Bullet time: muffled
+        this.filter!.frequency.setTargetAtTime(input.bulletTime ? BULLET_TIME_CUTOFF : OPEN_CUTOFF, now, 0.15);
+
+        this.schedule(now);
+    }
+
+    /**
+     * Fade out (death, game over); update() fades back in
+     */
+    public stop(): void {
+        const ctx = this.engine.ctx;
+        if (!ctx || !this.output) return;
+        this.output.gain.setTargetAtTime(0, ctx.currentTime, 0.3);
+        this.playing = false;
+    }
+
+    public destroy(): void {
+        this.stop();
+        const output = this.output;
+        // Disconnect once the fade is done
+        setTimeout(() => output?.disconnect(), 1500);
+        this.output = null;
+        this.filter = null;
+        this.stems = {};
+    }
+
+    /**
+     * Schedule every step that starts within the look-ahead window
+     */
+    private schedule(now: number): void {
+        // Fell behind (tab was paused etc.): restart the grid instead of bursting notes
+        if (this.nextStepTime < now - 0.2) {
+            this.nextStepTime = now + 0.05;
+        }
+
+        while (this.nextStepTime < now + SCHEDULE_AHEAD) {
+            this.playStep(this.step, CHORDS[this.bar % CHORDS.length], this.nextStepTime);
+
+            // Bullet time slows the tempo along with the pitch
+            this.nextStepTime += 60 / BPM / 4 / this.engine.pitchScale;
+            this.step = (this.step + 1) % STEPS_PER_BAR;
+            if (this.step === 0) {
+                this.bar++;
+            }
+        }
+    }
+
+    private playStep(step: number, chord: number[], at: number): void {
+        const stems = this.stems;
+
+        // Pad: sustained chord at the start of each bar
+        if (step === 0) {
+            chord.forEach((freq) => {
+                this.engine.playTone({ type: 'triangle', freq: freq * 2, duration: 2.2, attack: 0.4, gain: 0.07, output: stems.pad }, at);
+            });
+        }
+
+        // Bass: root on the beat
+        if (step % 4 === 0) {
+            this.engine.playTone({ type: 'sawtooth', freq: chord[0] / 2, duration: 0.3, gain: 0.12, output: stems.bass }, at);
+        }
+
+        // Arpeggio
+        const arpIndex = ARP_PATTERN[step];
+        if (arpIndex >= 0) {
+            const octave = step >= 8 ? 8 : 4;
+            this.engine.playTone({ type: 'square', freq: chord[arpIndex] * octave, duration: 0.12, gain: 0.04, output: stems.arp }, at);
+        }
+
+        // Drums: kick + offbeat hats
+        if (KICK_STEPS.has(step)) {
+            this.engine.playTone({ type: 'sine', freq: 150, freqEnd: 45, duration: 0.18, gain: 0.35, output: stems.drums }, at);
+        }
+        if (step % 4 === 2) {
+            this.engine.playNoise({ duration: 0.05, gain: 0.08, filter: 'highpass', filterFreq: 7000, output: stems.drums }, at);
+        }
+
+        // Lead: slow melody high above
+        for (const [leadStep, tone] of LEAD_MELODY) {
+            if (leadStep === step) {
+                this.engine.playTone({ type: 'sine', freq: chord[tone] * 8, duration: 0.9, attack: 0.08, gain: 0.06, output: stems.lead }, at);
+            }
+        }
+
+        // Tension: 16th pulse rising an octave as the charge nears the perfect window
+        if (this.tensionLevel > 0.001) {
+            const freq = chord[0] * 4 * Math.pow(2, this.tensionLevel);
+            this.engine.playTone({ type: 'square', freq, duration: 0.07, gain: 0.06, output: stems.tension }, at);
+        }
+    }
+
+    /**
+     * Build the stem mixer once the AudioContext exists
+     * stems → low-pass (bullet time) → output fade → music bus
+     */
+    private ensureGraph(ctx: AudioContext): boolean {
+        if (this.output) return true;
+
+        const bus = this.engine.getBus('music');
+        if (!bus) return false;
+
+        this.output = ctx.createGain();
+        this.output.gain.value = 0;
+        this.output.connect(bus);
+
+        this.filter = ctx.createBiquadFilter();
+        this.filter.type = 'lowpass';
+        this.filter.frequency.value = OPEN_CUTOFF;
+        this.filter.Q.value = 0.8;
+        this.filter.connect(this.output);
+
+        const ids: StemId[] = ['pad', 'bass', 'arp', 'drums', 'lead', 'tension'];
+        for (const id of ids) {
+            const gain = ctx.createGain();
+            gain.gain.value = 0;
+            gain.connect(this.filter);
+            this.stems[id] = gain;
+        }
+        return true;
+    }
+}
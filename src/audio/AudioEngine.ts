@@ -0,0 +1,209 @@
+import { profileStore } from '../storage/ProfileStore';
+import type { ProfileSettings } from '../storage/ProfileStore';
+
+/**
+ * AudioEngine - WebAudio 合成音频 (无需音频资源文件)
+ *
+ * 节点结构: 各个声音 → sfx / music 总线 → master → destination
+ * - 音量 / 静音跟随玩家设置实时变化
+ * - 浏览器要求用户操作后才能出声：第一次点击或按键时创建 / 恢复 AudioContext
+ * - pitch 跟随子弹时间的 timeScale (慢动作时声音变低变慢)
+ */
+
+export type AudioBus = 'sfx' | 'music';
+
+export interface ToneOptions {
+    type?: OscillatorType;
+    freq: number;           // Start frequency (Hz, before pitch scaling)
+    freqEnd?: number;       // Exponential glide target (Hz)
+    duration: number;       // Seconds (before pitch scaling)
+    gain?: number;          // Peak gain (0..1)
+    attack?: number;        // Attack time (s)
+    delay?: number;         // Start offset from now (s)
+    bus?: AudioBus;
+    output?: AudioNode;     // Connect here instead of the bus (music stems)
+}
+
+export interface NoiseOptions {
+    duration: number;
+    gain?: number;
+    filter?: BiquadFilterType;
+    filterFreq?: number;    // Filter cutoff at the start (Hz)
+    filterFreqEnd?: number; // Filter sweep target (Hz)
+    delay?: number;
+    bus?: AudioBus;
+    output?: AudioNode;
+}
+
+const VOLUME_RAMP_TIME = 0.05;      // Smoothing for volume changes (s)
+const MIN_PITCH = 0.4;              // Slowest pitch in deep bullet time
+
+export class AudioEngine {
+    private context: AudioContext | null = null;
+    private master!: GainNode;
+    private buses!: Record<AudioBus, GainNode>;
+    private noiseBuffer!: AudioBuffer;
+    private settings: Readonly<ProfileSettings>;
+
+    /** Pitch / speed multiplier for new sounds (follows bullet time) */
+    private pitch: number = 1;
+
+    constructor(settings: Readonly<ProfileSettings>) {
+        this.settings = settings;
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pointerdown', this.unlock);
+            window.addEventListener('keydown', this.unlock);
+        }
+    }
+
+    /** AudioContext once the player has interacted with the page (null before) */
+    public get ctx(): AudioContext | null {
+        return this.context?.state === 'running' ? this.context : null;
+    }
+
+    public get pitchScale(): number {
+        return this.pitch;
+    }
+
+    /**
+     * Bus node to connect long-lived sounds to (music stems)
+     */
+    public getBus(bus: AudioBus): AudioNode | null {
+        return this.context ? this.buses[bus] : null;
+    }
+
+    public applySettings(settings: Readonly<ProfileSettings>): void {
+        this.settings = settings;
+        if (!this.context) return;
+
+        const now = this.context.currentTime;
+        const master = settings.muted ? 0 : settings.masterVolume;
+        this.master.gain.setTargetAtTime(master, now, VOLUME_RAMP_TIME);
+        this.buses.sfx.gain.setTargetAtTime(settings.sfxVolume, now, VOLUME_RAMP_TIME);
+        this.buses.music.gain.setTargetAtTime(settings.musicVolume, now, VOLUME_RAMP_TIME);
+    }
+
+    /**
+     * Bullet time scale -> pitch of new sounds (square root keeps deep slow-mo audible)
+     */
+    public setTimeScale(timeScale: number): void {
+        this.pitch = Math.max(MIN_PITCH, Math.sqrt(timeScale));
+    }
+
+    /**
+     * Oscillator blip with a short attack and exponential decay
+     * @param at - Absolute AudioContext start time (sequenced music), defaults to now
+     */
+    public playTone(options: ToneOptions, at?: number): void {
+        const ctx = this.ctx;
+        if (!ctx) return;
+
+        const start = (at ?? ctx.currentTime) + (options.delay ?? 0) / this.pitch;
+        const duration = options.duration / this.pitch;
+        const attack = Math.min(options.attack ?? 0.005, duration * 0.5);
+
+        const osc = ctx.createOscillator();
+        osc.type = options.type ?? 'sine';
+        osc.frequency.setValueAtTime(options.freq * this.pitch, start);
+        if (options.freqEnd !== undefined) {
+            osc.frequency.exponentialRampToValueAtTime(Math.max(1, options.freqEnd * this.pitch), start + duration);
+        }
+
+        const gain = this.createEnvelope(ctx, start, attack, duration, options.gain ?? 0.3);
+        osc.connect(gain).connect(options.output ?? this.buses[options.bus ?? 'sfx']);
+        osc.start(start);
+        osc.stop(start + duration + 0.02);
+    }
+
+    /**
+     * Filtered white noise burst (impacts, whooshes)
+     * @param at - Absolute AudioContext start time (sequenced music), defaults to now
+     */
+    public playNoise(options: NoiseOptions, at?: number): void {
+        const ctx = this.ctx;
+        if (!ctx) return;
+
+        const start = (at ?? ctx.currentTime) + (options.delay ?? 0) / this.pitch;
+        const duration = options.duration / this.pitch;
+
+        const source = ctx.createBufferSource();
+        source.buffer = this.noiseBuffer;
+        source.loop = true;
+        source.playbackRate.value = this.pitch;
+
+        const filter = ctx.createBiquadFilter();
+        filter.type = options.filter ?? 'lowpass';
+        filter.frequency.setValueAtTime((options.filterFreq ?? 2000) * this.pitch, start);
+        if (options.filterFreqEnd !== undefined) {
+            filter.frequency.exponentialRampToValueAtTime(Math.max(1, options.filterFreqEnd * this.pitch), start + duration);
+        }
+
+        const gain = this.createEnvelope(ctx, start, 0.003, duration, options.gain ?? 0.3);
+        source.connect(filter).connect(gain).connect(options.output ?? this.buses[options.bus ?? 'sfx']);
+        source.start(start);
+        source.stop(start + duration + 0.02);
+    }
+
+    private createEnvelope(ctx: AudioContext, start: number, attack: number, duration: number, peak: number): GainNode {
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(peak, start + attack);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+        return gain;
+    }
+
+    /**
+     * Create (first gesture) or resume (after the browser suspended it) the AudioContext
+     */
+    private unlock = (): void => {
+        if (!this.context) {
+            const AudioContextClass = window.AudioContext
+                ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+            if (!AudioContextClass) {
+                this.removeUnlockListeners();
+                return;
+            }
+            this.createGraph(new AudioContextClass());
+        }
+
+        if (this.context!.state === 'suspended') {
+            this.context!.resume().catch(() => { /* retried on the next gesture */ });
+        } else if (this.context!.state === 'running') {
+            this.removeUnlockListeners();
+        }
+    };
+
+    private removeUnlockListeners(): void {
+        window.removeEventListener('pointerdown', this.unlock);
+        window.removeEventListener('keydown', this.unlock);
+    }
+
+    private createGraph(ctx: AudioContext): void {
+        this.context = ctx;
+
+        this.master = ctx.createGain();
+        this.master.connect(ctx.destination);
+        this.buses = {
+            sfx: ctx.createGain(),
+            music: ctx.createGain(),
+        };
+        this.buses.sfx.connect(this.master);
+        this.buses.music.connect(this.master);
+
+        // One second of white noise, reused by every noise burst
+        this.noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+        const data = this.noiseBuffer.getChannelData(0);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = Math.random() * 2 - 1;
+        }
+
+        // Start silent and ramp to the current volume (no click)
+        this.master.gain.value = 0;
+        this.applySettings(this.settings);
+    }
+}
+
+/** Shared audio engine, follows the profile's volume settings */
+export const audioEngine = new AudioEngine(profileStore.profile.settings);
+profileStore.onSettingsChanged((settings) => audioEngine.applySettings(settings));
@@ -0,0 +1,147 @@
+import type { AudioEngine } from './AudioEngine';
+import type { LaunchRating } from '../sim/SlimeSim';
+
+/**
+ * SoundEffects - 游戏事件音效 (全部由 AudioEngine 合成)
+ *
+ * 每个方法对应一个游戏事件，GameScene 在事件发生时调用。
+ * 音高随子弹时间变化由 AudioEngine 统一处理。
+ */
+
+// Major pentatonic steps (semitones) for rising combo notes
+const COMBO_SCALE = [0, 2, 4, 7, 9];
+const COMBO_BASE_FREQ = 523.25;     // C5
+
+function semitonesToRatio(semitones: number): number {
+    return Math.pow(2, semitones / 12);
+}
+
+export class SoundEffects {
+    private engine: AudioEngine;
+
+    constructor(engine: AudioEngine) {
+        this.engine = engine;
+    }
+
+    /**
+     * Landing judgment: bright chord for PERFECT, soft thud for NORMAL, buzz for FAILED
+     */
+    public landing(rating: LaunchRating): void {
+        // Every landing has an impact
+        this.engine.playNoise({ duration: 0.12, gain: 0.25, filterFreq: 900, filterFreqEnd: 120 });
+
+        if (rating === 'PERFECT') {
+            this.engine.playTone({ type: 'triangle', freq: 659.25, duration: 0.25, gain: 0.25 });
+            this.engine.playTone({ type: 'triangle', freq: 987.77, duration: 0.3, gain: 0.2, delay: 0.04 });
+            this.engine.playTone({ type: 'sine', freq: 1318.5, duration: 0.35, gain: 0.12, delay: 0.08 });
+        } else if (rating === 'NORMAL') {
+            this.engine.playTone({ type: 'sine', freq: 330, freqEnd: 220, duration: 0.15, gain: 0.2 });
+        } else {
+            this.engine.playTone({ type: 'sawtooth', freq: 180, freqEnd: 90, duration: 0.3, gain: 0.15 });
+        }
+    }
+
+    /**
+     * Combo counter went up: each step climbs the pentatonic scale
+     */
+    public combo(streak: number): void {
+        const step = Math.max(0, streak - 2);
+        const octave = Math.floor(step / COMBO_SCALE.length);
+        const semitones = COMBO_SCALE[step % COMBO_SCALE.length] + Math.min(octave, 2) * 12;
+        const freq = COMBO_BASE_FREQ * semitonesToRatio(semitones);
+
+        this.engine.playTone({ type: 'square', freq, duration: 0.12, gain: 0.1, delay: 0.1 });
+        this.engine.playTone({ type: 'square', freq: freq * 1.5, duration: 0.16, gain: 0.08, delay: 0.17 });
+    }
+
+    /**
+     * Countdown tick while compressing (pitch rises with progress toward the yellow zone)
+     * @param progress - 0..1 time progress to the yellow zone
+     */
+    public chargeTick(progress: number): void {
+        this.engine.playTone({ type: 'square', freq: 440 * semitonesToRatio(progress * 12), duration: 0.04, gain: 0.12 });
+    }
+
+    /**
+     * The yellow (PERFECT) window just opened
+     */
+    public yellowZoneOpen(): void {
+        this.engine.playTone({ type: 'sine', freq: 1760, duration: 0.12, gain: 0.2 });
+    }
+
+    /**
+     * Lane switch attack whoosh
+     */
+    public slash(): void {
+        this.engine.playNoise({ duration: 0.14, gain: 0.22, filter: 'bandpass', filterFreq: 1200, filterFreqEnd: 5000 });
+    }
+
+    /**
+     * Slash connected with one or more monsters
+     */
+    public kill(count: number): void {
+        this.engine.playNoise({ duration: 0.08, gain: 0.3, filter: 'highpass', filterFreq: 2500 });
+        for (let i = 0; i < Math.min(count, 3); i++) {
+            this.engine.playTone({ type: 'square', freq: 880 * semitonesToRatio(i * 4), freqEnd: 440, duration: 0.12, gain: 0.12, delay: i * 0.05 });
+        }
+    }
+
+    /**
+     * Slash hit an armored monster without killing it: metallic clank
+     */
+    public armorHit(): void {
+        this.engine.playNoise({ duration: 0.06, gain: 0.25, filter: 'highpass', filterFreq: 4000 });
+        this.engine.playTone({ type: 'square', freq: 1245, freqEnd: 1100, duration: 0.1, gain: 0.1 });
+        this.engine.playTone({ type: 'triangle', freq: 1870, duration: 0.14, gain: 0.08, delay: 0.01 });
+    }
+
+    /**
+     * Slashed a bomb: low boom
+     */
+    public bomb(): void {
+        this.engine.playNoise({ duration: 0.4, gain: 0.4, filter: 'lowpass', filterFreq: 1200, filterFreqEnd: 150 });
+        this.engine.playTone({ type: 'sine', freq: 110, freqEnd: 40, duration: 0.35, gain: 0.3 });
+    }
+
+    /**
+     * Ranged monster fired a projectile
+     */
+    public monsterShot(): void {
+        this.engine.playTone({ type: 'sine', freq: 520, freqEnd: 260, duration: 0.18, gain: 0.12 });
+    }
+
+    /**
+     * Player lost health (heavier hits are lower and louder)
+     */
+    public damage(amount: number): void {
+        const weight = Math.min(1, amount / 50);
+        this.engine.playTone({ type: 'sawtooth', freq: 260 - 100 * weight, freqEnd: 60, duration: 0.25, gain: 0.15 + 0.15 * weight });
+        this.engine.playNoise({ duration: 0.15, gain: 0.2, filterFreq: 600 });
+    }
+
+    /**
+     * Descending minor arpeggio when the player dies
+     */
+    public death(): void {
+        const notes = [392, 311.13, 261.63, 196];
+        notes.forEach((freq, i) => {
+            this.engine.playTone({ type: 'triangle', freq, duration: 0.35, gain: 0.22, delay: i * 0.16 });
+        });
+        this.engine.playNoise({ duration: 0.8, gain: 0.18, filterFreq: 400, filterFreqEnd: 60, delay: 0.1 });
+    }
+
+    /**
+     * Time slows down: falling sweep
+     */
+    public bulletTimeStart(): void {
+        this.engine.playTone({ type: 'sine', freq: 880, freqEnd: 110, duration: 0.6, gain: 0.2 });
+        this.engine.playNoise({ duration: 0.5, gain: 0.12, filter: 'bandpass', filterFreq: 3000, filterFreqEnd: 300 });
+    }
+
+    /**
+     * Time back to normal: rising sweep
+     */
+    public bulletTimeEnd(): void {
+        this.engine.playTone({ type: 'sine', freq: 110, freqEnd: 660, duration: 0.4, gain: 0.16 });
+    }
+}
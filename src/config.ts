@@ -54,19 +54,35 @@ export const GameConfig = {
         softCapVelocity: 2600,        // 软上限速度 (仅对非Perfect生效)
         softCapFactor: 0.25,          // 超出软上限后只保留25%
 
-        // ----- Perfect指数增长 (核心游戏循环) -----
-        // Perfect: 高度增长 = lastApex * (1 + growthRate) + bonus
-        // growthRate = 15% + 5% * log10(height/100)
-        // bonus = 50px + 5% * lastApex
-        // (这些值现在硬编码在ChargingState中, 可根据需要提取)
-
-        // ----- 惩罚系数 (硬编码在ChargingState中) -----
-        // Normal: 保留 70% 高度
-        // Failed: 保留 40% 高度
-        // 无快速下落: 保留 70% 高度
-
-        // ----- 连击系统 (硬编码在ChargingState中) -----
-        // 3次连续Perfect = 2倍增益
+        // ----- 起跳高度增长 (核心游戏循环, 见 sim/LaunchModel.ts) -----
+        growth: {
+            model: 'exponential',     // 增长模型: exponential / linear / capped / step
+
+            // Perfect: 高度 = lastApex * lerp(decayMult, 1 + growthRate, 能量) + bonus * 能量
+            // growthRate = 15% + 5% * log10(1 + height/100)
+            perfectBaseRate: 0.15,    // 基础增长率
+            perfectLogRate: 0.05,     // 每个数量级额外增长率
+            perfectLogRefPx: 100,     // Log参考高度 (px)
+            perfectDecayMult: 0.85,   // 没有快速下落时的保留系数
+            perfectBonusBasePx: 50,   // 额外高度: 50px
+            perfectBonusRatio: 0.05,  //          + 5% * lastApex
+
+            // 连击: 连续Perfect达到次数后增长率放大
+            streakLength: 3,          // 连击门槛
+            streakGrowthMult: 1.5,    // 增长率倍数
+
+            // 惩罚系数
+            normalMultMin: 0.50,      // Normal 未快速下落: 保留 50%
+            normalMultMax: 0.80,      // Normal 全程快速下落: 保留 80%
+            failedMult: 0.40,         // Failed: 保留 40%
+            minLaunchHeightPx: 50,    // 最小起跳高度 (px)
+
+            // 其他模型参数
+            linearGainPx: 1500,       // linear: 每次Perfect增加高度 (px, 约30m)
+            capHeightM: 3000,         // capped: 高度上限 (米)
+            stepHeightsM: [50, 150, 400, 1000, 2000, 4000, 8000],  // step: 阶梯高度 (米)
+            stepMinEnergy: 0.5,       // step: 升到下一阶需要的最低能量
+        },
 
         // ----- 按太久失败 (Hold Lockout) -----
         peakEps: 1.0,                 // 判定到达压缩峰值的容差
@@ -222,16 +238,44 @@ export const GameConfig = {
     // 怪物系统 (Monster System) - 纯动态生成
     // ===================================================================
     monster: {
-        // ----- 基础移动参数 (会被高度倍率放大) -----
-        moveSpeedMin: 25,             // 基础最小移动速度 (像素/秒)
-        moveSpeedMax: 50,             // 基础最大移动速度 (像素/秒)
+        // 怪物类型 (贴图、尺寸、速度、血量...) 定义在 public/assets/Monsters/monsters.json
+
+        // ----- 移动AI -----
         directionChangeInterval: 2000, // 方向改变的平均间隔 (毫秒)
         directionChangeVariance: 1500, // 方向改变的随机变化范围
 
-        // ----- A01 怪物 -----
-        a01: {
-            frameRate: 8,             // 动画帧率
-            size: 48,                 // 显示大小 (像素)
+        // ----- 装甲怪物 (hp > 1) -----
+        // 每次斩击扣 1 点血：闪白 + 击退 + 裂纹，血量归零才击杀
+        armor: {
+            knockbackPx: 36,          // 未击杀时沿斩击方向击退 (像素)
+            hitFlashMs: 90,           // 受击闪白时长 (毫秒)
+        },
+
+        // ----- 炸弹怪物 (清单 onHit 为 damage / drain 的怪物) -----
+        // 被换道斩击扫到就爆炸：扣血或抽走子弹时间能量，不计击杀
+        bomb: {
+            blockWindowM: 20,         // 这个高度范围内的炸弹不能覆盖全部通道 (米)
+        },
+
+        // ----- 远程怪物弹体 (清单 fireIntervalMs > 0 的怪物) -----
+        // 只在子弹时间内开火，瞄准玩家开火瞬间所在通道的中心
+        projectile: {
+            speed: 320,               // 飞行速度 (像素/模拟秒，子弹时间下同样变慢)
+            radius: 14,               // 碰撞 / 显示半径 (像素)
+            damage: 12,               // 命中伤害
+            maxAlive: 10,             // 同时存在的弹体上限
+            maxRangeM: 30,            // 只有在玩家上方这个距离内的怪物开火 (米)
+            lifetimeSec: 8,           // 弹体存在时间上限 (模拟秒)
+        },
+
+        // ----- 换道怪物 (behavior: laneHop) -----
+        // 预警 (闪烁 + 箭头) 之后跳到相邻通道，时间按模拟时钟计 (子弹时间下同样变慢)
+        laneHop: {
+            intervalMs: 2200,         // 两次换道的平均间隔 (毫秒)
+            intervalVariance: 600,    // 间隔随机范围 (毫秒)
+            firstDelayMs: 900,        // 生成后第一次预警前的延迟 (毫秒)
+            telegraphMs: 650,         // 预警时长 (毫秒)
+            hopMs: 180,               // 跳跃位移时长 (毫秒)
         },
 
         // ----- 动态导演系统 (Director System) -----
@@ -332,6 +376,16 @@ export const GameConfig = {
         killRefundCap: 1.0,           // 击杀总共可获得的最大上限扩展 (秒)
     },
 
+    // ===================================================================
+    // 血量与坠落伤害 (Health)
+    // ===================================================================
+    // NORMAL 落地伤害: 安全区以下为 0，之后线性增长，到一击必死高度时为 fallDamageMax
+    health: {
+        safeZoneMeters: 100,          // 安全区 (米) - 以下不受伤，按太久也不致死
+        instantDeathMeters: 1000,     // 一击必死高度 (米)
+        fallDamageMax: 100,           // 一击必死高度前的最大伤害
+    },
+
     // ===================================================================
     // UI 配置 (UI Configuration)
     // ===================================================================
@@ -0,0 +1,171 @@
+import Phaser from 'phaser';
+import { profileStore } from '../storage/ProfileStore';
+import type { HeightUnit, LanguageSetting } from '../storage/ProfileStore';
+import { STRINGS } from './strings';
+import type { Language, StringKey } from './strings';
+
+/**
+ * I18n - 界面文字本地化
+ *
+ * - t(key, params) 从文本表取字符串并替换 {param}
+ * - 语言设置为 'auto' 时按浏览器语言检测 (中文 → zh，其他 → en)
+ * - 运行时切换：bind() 绑定的文字对象在切换语言时自动刷新
+ * - 数字 / 高度 / 时长 / 日期按当前语言格式化
+ */
+
+export type TranslateParams = Record<string, string | number>;
+export type LanguageListener = (language: Language) => void;
+
+const LOCALES: Record<Language, string> = {
+    zh: 'zh-CN',
+    en: 'en-US',
+};
+
+const FEET_PER_METER = 3.28084;
+
+/**
+ * Browser language -> supported language (falls back to English)
+ */
+export function detectLanguage(): Language {
+    const preferred = typeof navigator !== 'undefined'
+        ? (navigator.languages?.length ? navigator.languages : [navigator.language])
+        : [];
+
+    for (const tag of preferred) {
+        const base = tag?.toLowerCase().split('-')[0];
+        if (base && base in STRINGS) {
+            return base as Language;
+        }
+    }
+    return 'en';
+}
+
+export class I18n {
+    private current: Language;
+    private listeners = new Set<LanguageListener>();
+    private numberFormats = new Map<string, Intl.NumberFormat>();
+
+    constructor(setting: LanguageSetting) {
+        this.current = this.resolve(setting);
+        this.applyDocumentLanguage();
+    }
+
+    public get language(): Language {
+        return this.current;
+    }
+
+    /**
+     * Apply the player's language setting ('auto' = detect), notifying listeners on change
+     */
+    public setLanguage(setting: LanguageSetting): void {
+        const next = this.resolve(setting);
+        if (next === this.current) return;
+
+        this.current = next;
+        this.applyDocumentLanguage();
+        this.listeners.forEach((listener) => listener(next));
+    }
+
+    /**
+     * Get notified when the language changes
+     * @returns Unsubscribe function
+     */
+    public onLanguageChanged(listener: LanguageListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Localized string, "{name}" placeholders replaced from params
+     */
+    public t(key: StringKey, params?: TranslateParams): string {
+        const template = STRINGS[this.current][key] ?? STRINGS.zh[key] ?? key;
+        if (!params) return template;
+        return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+            name in params ? String(params[name]) : match
+        );
+    }
+
+    /**
+     * Keep a text object in the current language: render() runs now and again on every switch
+     * (unbinds itself when the text object is destroyed)
+     */
+    public bind<T extends Phaser.GameObjects.Text>(text: T, render: () => string): T {
+        text.setText(render());
+        const unsubscribe = this.onLanguageChanged(() => text.setText(render()));
+        text.once(Phaser.GameObjects.Events.DESTROY, unsubscribe);
+        return text;
+    }
+
+    /**
+     * Locale-aware number (thousands separators, fixed fraction digits)
+     */
+    public formatNumber(value: number, fractionDigits: number = 0): string {
+        const cacheKey = `${this.current}:${fractionDigits}`;
+        let format = this.numberFormats.get(cacheKey);
+        if (!format) {
+            format = new Intl.NumberFormat(LOCALES[this.current], {
+                minimumFractionDigits: fractionDigits,
+                maximumFractionDigits: fractionDigits,
+            });
+            this.numberFormats.set(cacheKey, format);
+        }
+        return format.format(value);
+    }
+
+    /**
+     * Height in the given unit ("1,234m" / "4,049ft")
+     */
+    public formatHeight(meters: number, unit: HeightUnit): string {
+        const value = unit === 'ft' ? meters * FEET_PER_METER : meters;
+        return this.t(unit === 'ft' ? 'unit.ft' : 'unit.m', { value: this.formatNumber(value) });
+    }
+
+    /**
+     * Seconds with one decimal ("12.5s")
+     */
+    public formatSeconds(seconds: number): string {
+        return this.t('unit.seconds', { value: this.formatNumber(seconds, 1) });
+    }
+
+    /**
+     * Run duration as "m:ss"
+     */
+    public formatDuration(seconds: number): string {
+        const minutes = Math.floor(seconds / 60);
+        const rest = Math.floor(seconds % 60);
+        return `${minutes}:${String(rest).padStart(2, '0')}`;
+    }
+
+    /**
+     * Short date + time for history / leaderboard rows
+     */
+    public formatShortDate(timestamp: number): string {
+        return new Date(timestamp).toLocaleString(LOCALES[this.current], {
+            month: 'numeric',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false,
+        });
+    }
+
+    private applyDocumentLanguage(): void {
+        if (typeof document !== 'undefined') {
+            document.documentElement.lang = this.current;
+        }
+    }
+
+    private resolve(setting: LanguageSetting): Language {
+        return setting === 'auto' ? detectLanguage() : setting;
+    }
+}
+
+/** Shared i18n instance, follows the profile's language setting */
+export const i18n = new I18n(profileStore.profile.settings.language);
+profileStore.onSettingsChanged((settings) => i18n.setLanguage(settings.language));
+
+/** Shorthand for i18n.t() */
+export function t(key: StringKey, params?: TranslateParams): string {
+    return i18n.t(key, params);
+}
@@ -0,0 +1,318 @@
+/**
+ * 文本表 - 所有界面文字 (zh 为源语言，其他语言必须提供全部 key)
+ *
+ * Placeholders are written as {name} and filled in by I18n.t().
+ */
+
+const zh = {
+    // Start screen
+    'start.title': '🟢 Slime Jump 🟢',
+    'start.instructions': '按住屏幕 或 SPACE 快速下落\n在黄色状态松开 = PERFECT\n连续 3 次 PERFECT = 2x 力量!',
+    'start.button': '[ 点击开始 ]',
+
+    // Shared buttons
+    'button.leaderboard': '[ 排行榜 ]',
+    'button.history': '[ 历史记录 ]',
+    'button.settings': '[ 设置 ]',
+    'button.restart': '[ 重新开始 ]',
+    'button.back': '[ 返回 ]',
+    'button.ok': '[ 确定 ]',
+    'button.skip': '[ 跳过 ]',
+    'button.practice': '[ 练习 ]',
+
+    // HUD
+    'hud.replay': '▶ 回放',
+    'hud.record': '🏆 {height}',
+    'hud.ghost': '  👻 {height}',
+
+    // Landing feedback (Slime)
+    'feedback.perfect': 'PERFECT!',
+    'feedback.normal': 'Normal',
+    'feedback.failed': 'FAILED',
+    'feedback.combo': '{count} 连击!',
+    'feedback.damage': '-{damage}',
+    'feedback.early': '-{ms}ms 偏早',
+    'feedback.late': '+{ms}ms 偏晚',
+
+    // Practice drop trainer
+    'practice.title': '🎯 练习模式\n选择下落高度',
+    'practice.height': '[ {height} ]',
+    'practice.exit': '[ 退出练习 ]',
+    'practice.hudTitle': '🎯 练习 {height}',
+    'practice.hudRate': 'PERFECT {perfect}/{attempts} ({rate}%)',
+    'practice.hudMean': '平均 {offset}ms',
+
+    // Pause menu
+    'pause.title': '⏸ 暂停',
+    'pause.resume': '[ 继续 ]',
+
+    // Game over
+    'gameOver.title': '💀 游戏结束 💀',
+    'gameOver.cause': '{explanation}\n💡 {tip}',
+    'gameOver.seed': '种子: {seed}',
+    'gameOver.watchReplay': '[ 观看回放 ]',
+    'gameOver.copyReplay': '[ 复制回放 ]',
+    'gameOver.copied': '[ 已复制 ✓ ]',
+    'gameOver.copyFailed': '[ 复制失败 ]',
+
+    // Game over stats panel
+    'stats.runHeight': '本局高度',
+    'stats.bestHeight': '最高记录',
+    'stats.duration': '用时',
+    'stats.perfect': 'PERFECT',
+    'stats.normal': 'NORMAL',
+    'stats.failed': 'FAILED',
+    'stats.longestStreak': '最长连击',
+    'stats.kills': '击杀怪物',
+    'stats.killScore': '击杀得分',
+    'stats.damageTaken': '受到伤害',
+    'stats.bulletTime': '子弹时间',
+    'stats.deathCause': '死因',
+    'stats.assist': '辅助模式',
+    'stats.assistOn': '开启',
+    'stats.difficulty': '难度',
+    'stats.timingMean': '平均时机',
+    'stats.timingSplit': '偏早 / 偏晚',
+    'stats.timingSplitValue': '{early} / {late}',
+    'stats.timingOffset': '{offset}ms',
+    'stats.timingBucket': '  {from} ~ {to}ms',
+    'stats.timingBucketBelow': '  < {to}ms',
+    'stats.timingBucketAbove': '  ≥ {from}ms',
+
+    // Run history / leaderboard
+    'history.title': '历史记录',
+    'history.empty': '还没有对局记录',
+    'leaderboard.title': '🏅 排行榜',
+    'leaderboard.empty': '还没有上榜记录',
+    'leaderboard.assistTag': ' (辅助)',
+    'leaderboard.difficultyTag': ' [{difficulty}]',
+    'leaderboard.prompt': '🏅 排行榜第 {rank} 名!\n输入你的名字',
+    'leaderboard.defaultName': '玩家',
+
+    // Death causes
+    'deathCause.NO_INPUT.title': '没有操作',
+    'deathCause.NO_INPUT.explanation': '从 100m 以上落地时没有按住',
+    'deathCause.NO_INPUT.tip': '落地前按住，在变黄时松开弹起',
+    'deathCause.HELD_TOO_LONG.title': '按住太久',
+    'deathCause.HELD_TOO_LONG.explanation': '从 100m 以上落地后按住太久，错过了起跳时机',
+    'deathCause.HELD_TOO_LONG.tip': '角色变黄后立即松开',
+    'deathCause.FALL_DAMAGE.title': '摔落伤害',
+    'deathCause.FALL_DAMAGE.explanation': '高空 NORMAL 落地的伤害耗尽了生命值',
+    'deathCause.FALL_DAMAGE.tip': 'PERFECT 落地不受伤害，越高越要抓准黄色时机',
+    'deathCause.MONSTER_DAMAGE.title': '怪物伤害',
+    'deathCause.MONSTER_DAMAGE.explanation': '被怪物伤害耗尽了生命值',
+    'deathCause.MONSTER_DAMAGE.tip': '上升时左右换道，斩击挡路的怪物',
+    'deathCause.BOMB.title': '炸弹',
+    'deathCause.BOMB.explanation': '换道时斩到了炸弹怪物',
+    'deathCause.BOMB.tip': '带红色虚线圈的怪物不能斩，换道前看清目标通道',
+
+    // Settings
+    'settings.title': '⚙ 设置',
+    'settings.muted': '静音',
+    'settings.masterVolume': '主音量',
+    'settings.sfxVolume': '音效',
+    'settings.musicVolume': '音乐',
+    'settings.cameraShake': '镜头震动',
+    'settings.shakeIntensity': '震动强度',
+    'settings.reducedMotion': '减少动态效果',
+    'settings.timingTick': '黄区提示音',
+    'settings.timingRing': '时机圆环',
+    'settings.colorblindMode': '色盲模式',
+    'settings.heightUnit': '高度单位',
+    'settings.language': '语言',
+    'settings.inputSensitivity': '操作灵敏度',
+    'settings.inputOffset': '输入延迟补偿',
+    'settings.msValue': '{value}ms',
+    'settings.calibrate': '[ 校准输入延迟 ]',
+    'settings.assistMode': '辅助模式',
+    'settings.assistWindowScale': '辅助: 时机窗口',
+    'settings.assistNoInstantDeath': '辅助: 无一击必死',
+    'settings.customTiming': '自定义: 时机窗口',
+    'settings.customMonsters': '自定义: 怪物强度',
+    'settings.customDamage': '自定义: 坠落伤害',
+
+    // Difficulty presets
+    'start.difficulty': '难度: {difficulty}',
+    'difficulty.easy': '简单',
+    'difficulty.normal': '普通',
+    'difficulty.hard': '困难',
+    'difficulty.custom': '自定义',
+    'settings.on': '开',
+    'settings.off': '关',
+    'settings.unit.m': '米 (m)',
+    'settings.unit.ft': '英尺 (ft)',
+    'settings.language.auto': '自动',
+
+    // Input latency calibration
+    'calibration.title': '输入延迟校准',
+    'calibration.instructions': '跟着闪光和节拍点击屏幕或按 SPACE。\n前 4 拍为热身，之后的点击用于计算你的设备延迟。',
+    'calibration.start': '[ 开始 ]',
+    'calibration.retry': '[ 重新校准 ]',
+    'calibration.save': '[ 保存 ]',
+    'calibration.current': '当前补偿: {offset}',
+    'calibration.progress': '{count} / {total} 次点击',
+    'calibration.result': '偏差 {offset} (±{spread}ms)',
+    'calibration.notEnoughTaps': '点击次数不足，请重试',
+    'calibration.ms': '{value}ms',
+
+    // Units
+    'unit.m': '{value}m',
+    'unit.ft': '{value}ft',
+    'unit.seconds': '{value}s',
+};
+
+export type StringKey = keyof typeof zh;
+export type StringTable = Record<StringKey, string>;
+
+const en: StringTable = {
+    'start.title': '🟢 Slime Jump 🟢',
+    'start.instructions': 'Hold the screen or SPACE to dive\nRelease while yellow = PERFECT\n3 PERFECTs in a row = 2x power!',
+    'start.button': '[ TAP TO START ]',
+
+    'button.leaderboard': '[ LEADERBOARD ]',
+    'button.history': '[ HISTORY ]',
+    'button.settings': '[ SETTINGS ]',
+    'button.restart': '[ RESTART ]',
+    'button.back': '[ BACK ]',
+    'button.ok': '[ OK ]',
+    'button.skip': '[ SKIP ]',
+    'button.practice': '[ PRACTICE ]',
+
+    'hud.replay': '▶ REPLAY',
+    'hud.record': '🏆 {height}',
+    'hud.ghost': '  👻 {height}',
+
+    'feedback.perfect': 'PERFECT!',
+    'feedback.normal': 'Normal',
+    'feedback.failed': 'FAILED',
+    'feedback.combo': '{count} COMBO!',
+    'feedback.damage': '-{damage}',
+    'feedback.early': '-{ms}ms EARLY',
+    'feedback.late': '+{ms}ms LATE',
+
+    'practice.title': '🎯 Practice\nPick a drop height',
+    'practice.height': '[ {height} ]',
+    'practice.exit': '[ QUIT PRACTICE ]',
+    'practice.hudTitle': '🎯 Practice {height}',
+    'practice.hudRate': 'PERFECT {perfect}/{attempts} ({rate}%)',
+    'practice.hudMean': 'Average {offset}ms',
+
+    'pause.title': '⏸ PAUSED',
+    'pause.resume': '[ RESUME ]',
+
+    'gameOver.title': '💀 GAME OVER 💀',
+    'gameOver.cause': '{explanation}\n💡 {tip}',
+    'gameOver.seed': 'Seed: {seed}',
+    'gameOver.watchReplay': '[ WATCH REPLAY ]',
+    'gameOver.copyReplay': '[ COPY REPLAY ]',
+    'gameOver.copied': '[ COPIED ✓ ]',
+    'gameOver.copyFailed': '[ COPY FAILED ]',
+
+    'stats.runHeight': 'Height',
+    'stats.bestHeight': 'Best',
+    'stats.duration': 'Time',
+    'stats.perfect': 'PERFECT',
+    'stats.normal': 'NORMAL',
+    'stats.failed': 'FAILED',
+    'stats.longestStreak': 'Longest streak',
+    'stats.kills': 'Monsters slain',
+    'stats.killScore': 'Kill score',
+    'stats.damageTaken': 'Damage taken',
+    'stats.bulletTime': 'Bullet time',
+    'stats.deathCause': 'Cause of death',
+    'stats.assist': 'Assist mode',
+    'stats.assistOn': 'On',
+    'stats.difficulty': 'Difficulty',
+    'stats.timingMean': 'Average timing',
+    'stats.timingSplit': 'Early / late',
+    'stats.timingSplitValue': '{early} / {late}',
+    'stats.timingOffset': '{offset}ms',
+    'stats.timingBucket': '  {from} to {to}ms',
+    'stats.timingBucketBelow': '  < {to}ms',
+    'stats.timingBucketAbove': '  ≥ {from}ms',
+
+    'history.title': 'Run History',
+    'history.empty': 'No runs yet',
+    'leaderboard.title': '🏅 Leaderboard',
+    'leaderboard.empty': 'No entries yet',
+    'leaderboard.assistTag': ' (Assist)',
+    'leaderboard.difficultyTag': ' [{difficulty}]',
+    'leaderboard.prompt': '🏅 #{rank} on the leaderboard!\nEnter your name',
+    'leaderboard.defaultName': 'Player',
+
+    'deathCause.NO_INPUT.title': 'No input',
+    'deathCause.NO_INPUT.explanation': 'You landed from above 100m without holding',
+    'deathCause.NO_INPUT.tip': 'Hold before landing, release when you turn yellow',
+    'deathCause.HELD_TOO_LONG.title': 'Held too long',
+    'deathCause.HELD_TOO_LONG.explanation': 'You held too long after landing from above 100m and missed the bounce',
+    'deathCause.HELD_TOO_LONG.tip': 'Release as soon as you turn yellow',
+    'deathCause.FALL_DAMAGE.title': 'Fall damage',
+    'deathCause.FALL_DAMAGE.explanation': 'Damage from high NORMAL landings used up your health',
+    'deathCause.FALL_DAMAGE.tip': 'PERFECT landings take no damage - the higher you are, the more the yellow timing matters',
+    'deathCause.MONSTER_DAMAGE.title': 'Monsters',
+    'deathCause.MONSTER_DAMAGE.explanation': 'Monster hits used up your health',
+    'deathCause.MONSTER_DAMAGE.tip': 'Switch lanes while rising and slash monsters in your way',
+    'deathCause.BOMB.title': 'Bomb',
+    'deathCause.BOMB.explanation': 'A lane switch slashed a bomb',
+    'deathCause.BOMB.tip': 'Never slash monsters with a red dashed ring; check the lane before switching',
+
+    'settings.title': '⚙ Settings',
+    'settings.muted': 'Mute',
+    'settings.masterVolume': 'Master volume',
+    'settings.sfxVolume': 'Sound effects',
+    'settings.musicVolume': 'Music',
+    'settings.cameraShake': 'Camera shake',
+    'settings.shakeIntensity': 'Shake strength',
+    'settings.reducedMotion': 'Reduced motion',
+    'settings.timingTick': 'Timing tick',
+    'settings.timingRing': 'Timing ring',
+    'settings.colorblindMode': 'Colorblind mode',
+    'settings.heightUnit': 'Height unit',
+    'settings.language': 'Language',
+    'settings.inputSensitivity': 'Input sensitivity',
+    'settings.inputOffset': 'Input offset',
+    'settings.msValue': '{value}ms',
+    'settings.calibrate': '[ CALIBRATE INPUT ]',
+    'settings.assistMode': 'Assist mode',
+    'settings.assistWindowScale': 'Assist: timing window',
+    'settings.assistNoInstantDeath': 'Assist: no instant death',
+    'settings.customTiming': 'Custom: timing window',
+    'settings.customMonsters': 'Custom: monsters',
+    'settings.customDamage': 'Custom: fall damage',
+
+    'start.difficulty': 'Difficulty: {difficulty}',
+    'difficulty.easy': 'Easy',
+    'difficulty.normal': 'Normal',
+    'difficulty.hard': 'Hard',
+    'difficulty.custom': 'Custom',
+    'settings.on': 'On',
+    'settings.off': 'Off',
+    'settings.unit.m': 'Meters (m)',
+    'settings.unit.ft': 'Feet (ft)',
+    'settings.language.auto': 'Auto',
+
+    'calibration.title': 'Input Calibration',
+    'calibration.instructions': 'Tap the screen or press SPACE with the flash and the beat.\nThe first 4 beats are a warmup, the taps after that measure your device latency.',
+    'calibration.start': '[ START ]',
+    'calibration.retry': '[ TRY AGAIN ]',
+    'calibration.save': '[ SAVE ]',
+    'calibration.current': 'Current offset: {offset}',
+    'calibration.progress': '{count} / {total} taps',
+    'calibration.result': 'Offset {offset} (±{spread}ms)',
+    'calibration.notEnoughTaps': 'Not enough taps, please try again',
+    'calibration.ms': '{value}ms',
+
+    'unit.m': '{value}m',
+    'unit.ft': '{value}ft',
+    'unit.seconds': '{value}s',
+};
+
+export const STRINGS = { zh, en } as const;
+
+export type Language = keyof typeof STRINGS;
+
+/** Language names are always shown in their own language */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    zh: '中文',
+    en: 'English',
+};
@@ -47,6 +47,8 @@ export class GestureManager {
     private moveTol: number = 8;
     private holdDelay: number = 80;
     private swipeCooldown: number = 120;
+    private screenWidth: number = 540;
+    private sensitivity: number = 1;     // Player setting: higher = shorter swipe / faster hold
 
     // Global lock state (persists across pointer sessions until reset)
     private _laneSwitchLocked: boolean = false;
@@ -60,12 +62,21 @@ export class GestureManager {
      */
     updateScreenWidth(width: number): void {
         const lane = GameConfig.lane;
-        this.swipeDist = Math.max(18, width * lane.swipeDistRatio);
+        this.screenWidth = width;
+        this.swipeDist = Math.max(18, width * lane.swipeDistRatio) / this.sensitivity;
         this.moveTol = Math.max(8, width * lane.moveTolRatio);
-        this.holdDelay = lane.holdDelayMs;
+        this.holdDelay = lane.holdDelayMs / this.sensitivity;
         this.swipeCooldown = lane.swipeCooldownMs;
     }
 
+    /**
+     * Input sensitivity from settings (scales swipe distance and hold delay)
+     */
+    setSensitivity(sensitivity: number): void {
+        this.sensitivity = Math.max(0.1, sensitivity);
+        this.updateScreenWidth(this.screenWidth);
+    }
+
     /**
      * Handle pointer down event
      */
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+    CALIBRATION_BEAT_INTERVAL_MS,
+    CALIBRATION_SAMPLE_BEATS,
+    CALIBRATION_WARMUP_BEATS,
+    LatencyCalibrator,
+    MAX_INPUT_OFFSET_MS,
+    MIN_INPUT_OFFSET_MS,
+} from './LatencyCalibrator';
+
+const START = 1000;
+
+/** Tap every counted beat with the given offsets (cycled) */
+function tapAll(calibrator: LatencyCalibrator, offsets: number[]): void {
+    for (let i = 0; i < CALIBRATION_SAMPLE_BEATS; i++) {
+        const beat = CALIBRATION_WARMUP_BEATS + i;
+        calibrator.recordTap(calibrator.beatTime(beat) + offsets[i % offsets.length]);
+    }
+}
+
+describe('LatencyCalibrator', () => {
+    it('ignores taps on the warmup beats', () => {
+        const calibrator = new LatencyCalibrator(START);
+        for (let beat = 0; beat < CALIBRATION_WARMUP_BEATS; beat++) {
+            expect(calibrator.recordTap(calibrator.beatTime(beat) + 20)).toBeNull();
+        }
+        expect(calibrator.sampleCount).toBe(0);
+    });
+
+    it('reports late taps as a positive offset and early taps as a negative one', () => {
+        const calibrator = new LatencyCalibrator(START);
+        const beat = CALIBRATION_WARMUP_BEATS;
+        expect(calibrator.recordTap(calibrator.beatTime(beat) + 45)).toBe(45);
+        expect(calibrator.recordTap(calibrator.beatTime(beat + 1) - 30)).toBe(-30);
+    });
+
+    it('rejects a second tap on the same beat and taps outside the sequence', () => {
+        const calibrator = new LatencyCalibrator(START);
+        const beat = CALIBRATION_WARMUP_BEATS;
+        expect(calibrator.recordTap(calibrator.beatTime(beat) + 10)).toBe(10);
+        expect(calibrator.recordTap(calibrator.beatTime(beat) + 40)).toBeNull();
+
+        expect(calibrator.recordTap(START - CALIBRATION_BEAT_INTERVAL_MS)).toBeNull();
+        expect(calibrator.recordTap(calibrator.beatTime(calibrator.beatCount) + 5)).toBeNull();
+        expect(calibrator.sampleCount).toBe(1);
+    });
+
+    it('needs half of the counted beats before giving a result', () => {
+        const calibrator = new LatencyCalibrator(START);
+        for (let i = 0; i < CALIBRATION_SAMPLE_BEATS / 2 - 1; i++) {
+            calibrator.recordTap(calibrator.beatTime(CALIBRATION_WARMUP_BEATS + i) + 50);
+        }
+        expect(calibrator.getResult()).toBeNull();
+
+        calibrator.recordTap(calibrator.beatTime(CALIBRATION_WARMUP_BEATS + CALIBRATION_SAMPLE_BEATS / 2 - 1) + 50);
+        expect(calibrator.getResult()?.offsetMs).toBe(50);
+    });
+
+    it('uses the median offset and the median absolute deviation', () => {
+        const calibrator = new LatencyCalibrator(START);
+        // One wild tap must not drag the result
+        tapAll(calibrator, [60, 70, 80, 70, 60, 80, 70, 70, 60, 80, 70, -250]);
+
+        expect(calibrator.getResult()).toEqual({ offsetMs: 70, spreadMs: 10, samples: CALIBRATION_SAMPLE_BEATS });
+    });
+
+    it('clamps the offset to the supported range', () => {
+        const late = new LatencyCalibrator(START);
+        tapAll(late, [290]);
+        expect(late.getResult()?.offsetMs).toBe(MAX_INPUT_OFFSET_MS);
+
+        const early = new LatencyCalibrator(START);
+        tapAll(early, [-150]);
+        expect(early.getResult()?.offsetMs).toBe(MIN_INPUT_OFFSET_MS);
+    });
+
+    it('finishes half a beat after the last beat', () => {
+        const calibrator = new LatencyCalibrator(START);
+        const last = calibrator.beatTime(calibrator.beatCount - 1);
+        expect(calibrator.isFinished(last + CALIBRATION_BEAT_INTERVAL_MS / 2)).toBe(false);
+        expect(calibrator.isFinished(last + CALIBRATION_BEAT_INTERVAL_MS / 2 + 1)).toBe(true);
+    });
+});
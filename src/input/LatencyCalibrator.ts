@@ -0,0 +1,94 @@
+/**
+ * LatencyCalibrator - 输入延迟校准 (节拍器)
+ *
+ * 节拍按固定间隔出现 (闪光 + 咔哒声)，玩家跟着节拍点击。
+ * 每次点击与最近节拍的差值就是一个样本；去掉前几拍热身后取中位数，
+ * 即设备 (触屏 / 蓝牙键盘) 加上玩家自身的系统性偏差。
+ * 时间都用 performance.now() 时间轴 (与 DOM 事件的 timeStamp 相同)。
+ */
+
+export const CALIBRATION_BEAT_INTERVAL_MS = 600;   // 100 BPM
+export const CALIBRATION_WARMUP_BEATS = 4;         // Taps on these beats are ignored
+export const CALIBRATION_SAMPLE_BEATS = 12;        // Beats that count after the warmup
+
+/** Calibrated offsets are clamped to this range (ms) */
+export const MIN_INPUT_OFFSET_MS = -100;
+export const MAX_INPUT_OFFSET_MS = 250;
+
+export interface CalibrationResult {
+    offsetMs: number;       // Median tap offset (+ = taps arrive late)
+    spreadMs: number;       // Median absolute deviation (how steady the taps were)
+    samples: number;
+}
+
+export class LatencyCalibrator {
+    public readonly startTime: number;
+    private samples: number[] = [];
+    private tappedBeats = new Set<number>();
+
+    /**
+     * @param startTime - performance.now() time of the first beat
+     */
+    constructor(startTime: number) {
+        this.startTime = startTime;
+    }
+
+    public get beatCount(): number {
+        return CALIBRATION_WARMUP_BEATS + CALIBRATION_SAMPLE_BEATS;
+    }
+
+    public beatTime(index: number): number {
+        return this.startTime + index * CALIBRATION_BEAT_INTERVAL_MS;
+    }
+
+    /** All beats played and the last one had time to be answered */
+    public isFinished(now: number): boolean {
+        return now > this.beatTime(this.beatCount - 1) + CALIBRATION_BEAT_INTERVAL_MS / 2;
+    }
+
+    public get sampleCount(): number {
+        return this.samples.length;
+    }
+
+    /**
+     * Register a tap
+     * @returns Offset to the nearest beat (ms), null if it was ignored (warmup, double tap, out of range)
+     */
+    public recordTap(time: number): number | null {
+        const beat = Math.round((time - this.startTime) / CALIBRATION_BEAT_INTERVAL_MS);
+        if (beat < 0 || beat >= this.beatCount || this.tappedBeats.has(beat)) {
+            return null;
+        }
+        this.tappedBeats.add(beat);
+
+        const offset = time - this.beatTime(beat);
+        if (beat < CALIBRATION_WARMUP_BEATS) {
+            return null;
+        }
+        this.samples.push(offset);
+        return offset;
+    }
+
+    /**
+     * Median offset, null until at least half of the counted beats were tapped
+     */
+    public getResult(): CalibrationResult | null {
+        if (this.samples.length < CALIBRATION_SAMPLE_BEATS / 2) {
+            return null;
+        }
+
+        const offset = median(this.samples);
+        const spread = median(this.samples.map((sample) => Math.abs(sample - offset)));
+        return {
+            offsetMs: Math.round(Math.max(MIN_INPUT_OFFSET_MS, Math.min(MAX_INPUT_OFFSET_MS, offset))),
+            spreadMs: Math.round(spread),
+            samples: this.samples.length,
+        };
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -1,5 +1,7 @@
 import Phaser from 'phaser';
 import GameScene from './scenes/GameScene';
+import SettingsScene from './scenes/SettingsScene';
+import CalibrationScene from './scenes/CalibrationScene';
 
 // Mobile portrait mode configuration
 // Target aspect ratio: 9:16 (typical phone)
@@ -33,7 +35,7 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false
     }
   },
-  scene: [GameScene],
+  scene: [GameScene, SettingsScene, CalibrationScene],
   fps: {
     target: 60,
     // 使用 requestAnimationFrame (默认) 而非 setTimeout，性能更好
@@ -198,6 +198,14 @@ export class BulletTimeManager {
         }
     }
 
+    /**
+     * Remove energy (e.g. slashing a drain bomb)
+     * @param amount Seconds to remove
+     */
+    public drainEnergy(amount: number): void {
+        this.energy = Math.max(0, this.energy - amount);
+    }
+
     /**
      * Handle monster kill logic (refund)
      */
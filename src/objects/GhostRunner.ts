@@ -0,0 +1,119 @@
+import Phaser from 'phaser';
+import { GameConfig } from '../config';
+
+/**
+ * GhostRunner - 最佳一局的幽灵回放
+ *
+ * 录制玩家精灵在每个固定物理步的位置和动画，最佳一局保存为 GhostTrack。
+ * 下一局开始后，半透明的幽灵按相同的步数重现当时的位置 ("上次这个时候我在哪")。
+ */
+
+export interface GhostTrack {
+    bestHeight: number;     // Best head height (pixels) of the recorded run
+    sampleSteps: number;    // Fixed steps between two samples
+    anims: string[];        // Animation key table (frames reference it by index)
+    frames: number[];       // Flat [x, y, animIndex] per sample
+}
+
+const GHOST_SAMPLE_STEPS = 4;   // 120Hz physics -> 30Hz samples (interpolated on playback)
+const GHOST_ALPHA = 0.35;
+const GHOST_TINT = 0x88ccff;
+
+/**
+ * Samples the player sprite every few fixed steps
+ */
+export class GhostTrackRecorder {
+    private step: number = 0;
+    private anims: string[] = [];
+    private frames: number[] = [];
+
+    /**
+     * Called once per fixed physics step, after the slime was updated
+     */
+    public record(sprite: Phaser.GameObjects.Sprite): void {
+        if (this.step % GHOST_SAMPLE_STEPS === 0) {
+            const key = sprite.anims.currentAnim?.key ?? 'idle';
+            let animIndex = this.anims.indexOf(key);
+            if (animIndex === -1) {
+                animIndex = this.anims.push(key) - 1;
+            }
+            this.frames.push(Math.round(sprite.x), Math.round(sprite.y), animIndex);
+        }
+        this.step++;
+    }
+
+    public finish(bestHeight: number): GhostTrack {
+        return {
+            bestHeight,
+            sampleSteps: GHOST_SAMPLE_STEPS,
+            anims: [...this.anims],
+            frames: [...this.frames],
+        };
+    }
+}
+
+/**
+ * Translucent sprite replaying a GhostTrack alongside the live player
+ */
+export class GhostRunner {
+    public readonly sprite: Phaser.GameObjects.Sprite;
+    private readonly track: GhostTrack;
+    private readonly sampleCount: number;
+    private currentAnim: string = '';
+
+    constructor(scene: Phaser.Scene, track: GhostTrack) {
+        this.track = track;
+        this.sampleCount = Math.floor(track.frames.length / 3);
+
+        const playerSize = GameConfig.display.playerSize;
+        this.sprite = scene.add.sprite(0, 0, 'cyclop')
+            .setDisplaySize(playerSize, playerSize)
+            .setDepth(9)  // Just behind the live player
+            .setAlpha(GHOST_ALPHA)
+            .setTint(GHOST_TINT)
+            .setVisible(false);
+    }
+
+    /** True while the ghost still has samples left to show */
+    public get isActive(): boolean {
+        return this.sprite.visible;
+    }
+
+    public get x(): number { return this.sprite.x; }
+    public get y(): number { return this.sprite.y; }
+
+    /**
+     * Show the ghost where the best run was after the same number of fixed steps
+     */
+    public update(step: number): void {
+        const t = step / this.track.sampleSteps;
+        const i = Math.floor(t);
+
+        // Ghost run is over (it died at this point)
+        if (i >= this.sampleCount - 1) {
+            this.sprite.setVisible(false);
+            return;
+        }
+
+        const frames = this.track.frames;
+        const a = i * 3;
+        const b = a + 3;
+        const f = t - i;
+
+        this.sprite.setVisible(true);
+        this.sprite.setPosition(
+            Phaser.Math.Linear(frames[a], frames[b], f),
+            Phaser.Math.Linear(frames[a + 1], frames[b + 1], f)
+        );
+
+        const anim = this.track.anims[frames[a + 2]];
+        if (anim && anim !== this.currentAnim) {
+            this.currentAnim = anim;
+            this.sprite.play(anim);
+        }
+    }
+
+    public destroy(): void {
+        this.sprite.destroy();
+    }
+}
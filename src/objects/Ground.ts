@@ -38,6 +38,9 @@ export default class Ground {
     // Charge Tremor State
     private chargeStr: number = 0; // Continuous tremor from charging
 
+    // Player setting multiplier for the visual shake (0 = off)
+    public shakeScale: number = 1;
+
     // Ripple State
     private rippleOffset: number[] = []; // Visual offset only
     private rippleVel: number[] = [];    // Ripple velocity
@@ -165,6 +168,8 @@ export default class Ground {
             globalOffsetX = Phaser.Math.Clamp(globalOffsetX, -limit, limit);
             globalOffsetY = Phaser.Math.Clamp(globalOffsetY, -limit, limit);
         }
+        globalOffsetX *= this.shakeScale;
+        globalOffsetY *= this.shakeScale;
 
         // --- 2. Update Ripple Physics ---
         if (cfg.ripple.enable) {
@@ -6,15 +6,38 @@
 
 import Phaser from 'phaser';
 import { GameConfig } from '../config';
+import type { SeededRandom } from '../sim/SeededRandom';
+import { getMonsterAnimKey, getMonsterFrameKey, isHazard } from './MonsterRegistry';
+import type { MonsterDefinition } from './MonsterRegistry';
 
-export type MonsterType = 'A01';
+/** Lane hop in progress (laneHop behavior) */
+interface LaneHop {
+    phase: 'telegraph' | 'moving';
+    direction: -1 | 1;      // Toward the target lane
+    phaseStart: number;     // Sim clock (ms) when the phase began
+    fromX: number;          // Set when the move starts
+}
+
+// Telegraph tint with reduced motion (same color as the warning arrow)
+const TELEGRAPH_STEADY_TINT = 0xff5533;
+
+/**
+ * Lanes a monster may occupy during its life (the director spaces monsters by these)
+ */
+export function getReachableLanes(definition: MonsterDefinition, lane: number): number[] {
+    if (definition.behavior !== 'laneHop') return [lane];
+    const laneCount = GameConfig.lane.count;
+    return [lane - 1, lane, lane + 1].filter((l) => l >= 0 && l < laneCount);
+}
 
 export interface MonsterConfig {
-    type: MonsterType;
+    definition: MonsterDefinition;  // Type from the monster manifest
     x: number;
     y: number;          // 世界Y坐标 (越小=越高)
     heightMeters: number; // 高度 (米)
     speedMultiplier?: number; // 速度倍率 (默认1.0)
+    spawnTime?: number;   // 生成时的模拟时钟 (毫秒, 默认0)
+    reducedMotion?: boolean; // 玩家设置：预警 / 受击改为静态提示
 }
 
 export class Monster {
@@ -25,11 +48,13 @@ export class Monster {
     public x: number;
     public y: number;
     public heightMeters: number;
-    public type: MonsterType;
+    public readonly definition: MonsterDefinition;
     public isAlive: boolean = true;
+    public hp: number;                  // Remaining slash hits (definition.hp at spawn)
+    public reducedMotion: boolean;      // Steady telegraph tint, no hit flash (cracks still show the damage)
 
     // 通道系统
-    public currentLane: number = 1;  // 0=左, 1=中, 2=右 (创建时固定，不会改变)
+    public currentLane: number = 1;  // 0=左, 1=中, 2=右 (创建时固定；laneHop 行为会跳到相邻通道)
     private screenWidth: number;
 
     // 移动AI
@@ -37,24 +62,50 @@ export class Monster {
     private moveSpeed: number = 40;
     private speedMultiplier: number = 1.0; // 速度倍率 (高度越高越快)
     private nextDirectionChange: number = 0;
+    private clock: number = 0;            // 模拟时钟 (毫秒)，由 MonsterManager 驱动
+    private rng: SeededRandom;
 
-    constructor(scene: Phaser.Scene, config: MonsterConfig, screenWidth: number) {
+    // 换道 (laneHop 行为)
+    private hop: LaneHop | null = null;
+    private nextHopTime: number = 0;
+    private telegraphArrow: Phaser.GameObjects.Text | null = null;
+
+    // 远程怪物：下一次可以开火的模拟时钟 (毫秒)
+    private nextShotTime: number = Infinity;
+
+    // 装甲受击裂纹 (每次未致死的斩击多一道)
+    private cracks: Phaser.GameObjects.Graphics | null = null;
+
+    // 炸弹的警示圈 ("不要斩")
+    private warningRing: Phaser.GameObjects.Graphics | null = null;
+
+    constructor(scene: Phaser.Scene, config: MonsterConfig, screenWidth: number, rng: SeededRandom) {
         this.scene = scene;
+        this.rng = rng;
+        this.clock = config.spawnTime ?? 0;
         this.x = config.x;
         this.y = config.y;
         this.heightMeters = config.heightMeters;
-        this.type = config.type;
+        this.definition = config.definition;
+        this.hp = this.definition.hp;
         this.screenWidth = screenWidth;
         this.speedMultiplier = config.speedMultiplier ?? 1.0;
+        this.reducedMotion = config.reducedMotion ?? false;
 
         // 创建精灵
-        const size = GameConfig.monster.a01.size;
-        this.sprite = scene.add.sprite(this.x, this.y, 'monster_a01_right_1')
+        const size = this.definition.size;
+        this.sprite = scene.add.sprite(this.x, this.y, getMonsterFrameKey(this.definition, 'right', 0))
             .setDisplaySize(size, size)
             .setDepth(5);
+        if (this.definition.tint !== null) {
+            this.sprite.setTint(this.definition.tint);
+        }
+        if (isHazard(this.definition)) {
+            this.drawWarningRing();
+        }
 
         // 随机初始方向
-        this.moveDirection = Math.random() > 0.5 ? 1 : -1;
+        this.moveDirection = this.rng.next() > 0.5 ? 1 : -1;
         this.updateMoveSpeed();
 
         // 设置下次方向改变时间
@@ -65,16 +116,32 @@ export class Monster {
 
         // 播放初始动画
         this.playDirectionAnimation();
+
+        if (this.definition.behavior === 'laneHop') {
+            this.nextHopTime = this.clock + GameConfig.monster.laneHop.firstDelayMs;
+        }
+
+        // 远程怪物错开第一次开火 (只有远程怪物消耗随机数)
+        if (this.definition.fireIntervalMs > 0) {
+            this.nextShotTime = this.clock + this.definition.fireIntervalMs * (0.3 + 0.7 * this.rng.next());
+        }
+    }
+
+    /**
+     * Ranged monsters: true if a shot is due (and schedules the next one)
+     * ProjectileManager decides when shooting is allowed at all (bullet time, range)
+     */
+    public tryFire(): boolean {
+        if (!this.isAlive || this.clock < this.nextShotTime) return false;
+        this.nextShotTime = this.clock + this.definition.fireIntervalMs;
+        return true;
     }
 
     /**
      * 更新移动速度 (考虑高度倍率)
      */
     private updateMoveSpeed(): void {
-        const baseSpeed = Phaser.Math.Between(
-            GameConfig.monster.moveSpeedMin,
-            GameConfig.monster.moveSpeedMax
-        );
+        const baseSpeed = this.rng.between(this.definition.speedMin, this.definition.speedMax);
         this.moveSpeed = baseSpeed * this.speedMultiplier;
     }
 
@@ -83,6 +150,16 @@ export class Monster {
      */
     public update(dt: number, currentTime: number): void {
         if (!this.isAlive) return;
+        this.clock = currentTime;
+
+        // 换道中：由跳跃插值接管位置
+        if (this.definition.behavior === 'laneHop' && this.updateLaneHop()) {
+            this.sprite.setPosition(this.x, this.y);
+            this.cracks?.setPosition(this.x, this.y);
+            this.warningRing?.setPosition(this.x, this.y);
+            this.updateTelegraphArrow();
+            return;
+        }
 
         // 检查是否需要改变方向
         if (currentTime >= this.nextDirectionChange) {
@@ -113,8 +190,102 @@ export class Monster {
 
         // 更新精灵位置
         this.sprite.setPosition(this.x, this.y);
+        this.cracks?.setPosition(this.x, this.y);
+        this.warningRing?.setPosition(this.x, this.y);
 
-        // 注意：不再更新通道，怪物固定在创建时的通道内活动
+        // 注意：不再更新通道，怪物固定在创建时的通道内活动 (换道只发生在 updateLaneHop)
+        this.updateTelegraphArrow();
+    }
+
+    /**
+     * laneHop 行为：预警 (闪烁 + 箭头) → 跳到相邻通道
+     * @returns true while the hop move owns the position
+     */
+    private updateLaneHop(): boolean {
+        const cfg = GameConfig.monster.laneHop;
+
+        if (!this.hop) {
+            if (this.clock < this.nextHopTime) return false;
+            this.beginTelegraph();
+            return false;
+        }
+
+        const elapsed = this.clock - this.hop.phaseStart;
+        if (this.hop.phase === 'telegraph') {
+            // Blink: tint flashes white a few times per telegraph (steady warning tint with reduced motion)
+            const blinkOn = Math.floor(elapsed / 90) % 2 === 0;
+            if (this.reducedMotion) {
+                this.sprite.setTint(TELEGRAPH_STEADY_TINT);
+            } else if (blinkOn) {
+                this.sprite.setTintFill(0xffffff);
+            } else {
+                this.restoreTint();
+            }
+            if (elapsed < cfg.telegraphMs) return false;
+
+            this.restoreTint();
+            this.hop = { ...this.hop, phase: 'moving', phaseStart: this.clock, fromX: this.x };
+            return true;
+        }
+
+        // Moving: ease out to the same spot in the adjacent lane
+        const laneWidth = this.screenWidth / GameConfig.lane.count;
+        const t = Math.min(1, elapsed / Math.max(1, cfg.hopMs));
+        const eased = 1 - (1 - t) * (1 - t);
+        this.x = this.hop.fromX + this.hop.direction * laneWidth * eased;
+
+        if (t >= 1) {
+            this.currentLane += this.hop.direction;
+            this.hop = null;
+            this.hideTelegraph();
+            this.scheduleHop();
+        }
+        return true;
+    }
+
+    /**
+     * Pick the target lane (edges can only hop inward) and show the warning arrow
+     */
+    private beginTelegraph(): void {
+        const lastLane = GameConfig.lane.count - 1;
+        const direction: -1 | 1 = this.currentLane <= 0 ? 1
+            : this.currentLane >= lastLane ? -1
+            : this.rng.next() < 0.5 ? -1 : 1;
+
+        this.hop = { phase: 'telegraph', direction, phaseStart: this.clock, fromX: this.x };
+        this.telegraphArrow = this.scene.add.text(this.x, this.y, direction === 1 ? '▶' : '◀', {
+            fontSize: `${Math.round(this.definition.size * 0.6)}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ff5533',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(0.5).setDepth(6);
+        this.updateTelegraphArrow();
+    }
+
+    private scheduleHop(): void {
+        const cfg = GameConfig.monster.laneHop;
+        const delay = cfg.intervalMs + this.rng.between(-cfg.intervalVariance, cfg.intervalVariance);
+        this.nextHopTime = this.clock + Math.max(cfg.telegraphMs, delay);
+    }
+
+    private updateTelegraphArrow(): void {
+        if (!this.telegraphArrow || !this.hop) return;
+        this.telegraphArrow.setPosition(this.x + this.hop.direction * this.definition.size * 0.9, this.y);
+    }
+
+    private hideTelegraph(): void {
+        this.telegraphArrow?.destroy();
+        this.telegraphArrow = null;
+    }
+
+    private restoreTint(): void {
+        if (this.definition.tint !== null) {
+            this.sprite.setTint(this.definition.tint);
+        } else {
+            this.sprite.clearTint();
+        }
     }
 
     /**
@@ -142,26 +313,138 @@ export class Monster {
     private scheduleDirectionChange(): void {
         const interval = GameConfig.monster.directionChangeInterval;
         const variance = GameConfig.monster.directionChangeVariance;
-        const delay = interval + Phaser.Math.Between(-variance, variance);
-        this.nextDirectionChange = this.scene.time.now + Math.max(500, delay);
+        const delay = interval + this.rng.between(-variance, variance);
+        this.nextDirectionChange = this.clock + Math.max(500, delay);
     }
 
     /**
      * 播放对应方向的动画
      */
     private playDirectionAnimation(): void {
-        const animKey = this.moveDirection === 1 ? 'monster_a01_right' : 'monster_a01_left';
+        const animKey = getMonsterAnimKey(this.definition, this.moveDirection === 1 ? 'right' : 'left');
         if (this.sprite.anims.currentAnim?.key !== animKey) {
             this.sprite.play(animKey);
         }
     }
 
+    /**
+     * 受到一次斩击：扣血，血量归零时击杀
+     * 未致死时闪白、沿斩击方向击退并加一道裂纹
+     * @param direction - Slash direction (-1=左, 1=右), the knockback follows it
+     * @returns true if this hit killed the monster
+     */
+    public hit(direction: -1 | 1, damage: number = 1): boolean {
+        if (!this.isAlive) return false;
+
+        this.hp = Math.max(0, this.hp - damage);
+        if (this.hp <= 0) {
+            this.kill();
+            return true;
+        }
+
+        // 击退 (模拟状态：由斩击的固定步触发，回放可复现)；下一帧的通道边界检查会把它留在通道内
+        const knockback = direction * GameConfig.monster.armor.knockbackPx;
+        this.x += knockback;
+        if (this.hop?.phase === 'moving') {
+            this.hop.fromX += knockback;
+        }
+        this.sprite.setPosition(this.x, this.y);
+
+        // 闪白 (减少动态效果时只靠裂纹提示)
+        if (!this.reducedMotion) {
+            this.sprite.setTintFill(0xffffff);
+            this.scene.time.delayedCall(GameConfig.monster.armor.hitFlashMs, () => {
+                if (this.isAlive) this.restoreTint();
+            });
+        }
+
+        this.drawCracks();
+        return false;
+    }
+
+    /**
+     * Crack lines over the sprite, one more per hit taken (fixed pattern so it reads as damage, not noise)
+     */
+    private drawCracks(): void {
+        if (!this.cracks) {
+            this.cracks = this.scene.add.graphics().setDepth(6);
+        }
+        const g = this.cracks;
+        const r = this.definition.size * 0.45;
+        const hitsTaken = this.definition.hp - this.hp;
+
+        g.clear();
+        g.lineStyle(2, 0x1a1a1a, 0.9);
+        for (let i = 0; i < hitsTaken; i++) {
+            // Each crack radiates from near the center with a kink halfway
+            const angle = -Math.PI / 2 + i * 2.3;
+            const kink = angle + (i % 2 === 0 ? 0.5 : -0.5);
+            g.beginPath();
+            g.moveTo(Math.cos(angle) * r * 0.1, Math.sin(angle) * r * 0.1);
+            g.lineTo(Math.cos(angle) * r * 0.55, Math.sin(angle) * r * 0.55);
+            g.lineTo(Math.cos(kink) * r, Math.sin(kink) * r);
+            g.strokePath();
+        }
+        g.setPosition(this.x, this.y);
+    }
+
+    private destroyCracks(): void {
+        this.cracks?.destroy();
+        this.cracks = null;
+    }
+
+    /**
+     * Red dashed ring around bombs, readable at a glance during bullet time
+     */
+    private drawWarningRing(): void {
+        const g = this.scene.add.graphics().setDepth(4);
+        const r = this.definition.size * 0.75;
+        const dashes = 12;
+        g.lineStyle(3, 0xff3333, 0.9);
+        for (let i = 0; i < dashes; i++) {
+            const start = (i / dashes) * Math.PI * 2;
+            g.beginPath();
+            g.arc(0, 0, r, start, start + Math.PI / dashes);
+            g.strokePath();
+        }
+        g.setPosition(this.x, this.y);
+        this.warningRing = g;
+    }
+
+    /**
+     * 炸弹被斩：爆炸 (不计击杀，效果由 MonsterManager 按 onHit 处理)
+     */
+    public explode(): void {
+        if (!this.isAlive) return;
+        this.isAlive = false;
+        this.hp = 0;
+        this.hideTelegraph();
+        this.destroyCracks();
+        this.warningRing?.destroy();
+        this.warningRing = null;
+
+        const blast = this.scene.add.circle(this.x, this.y, this.definition.size * 0.5, 0xffaa33, 0.8).setDepth(6);
+        this.scene.tweens.add({
+            targets: blast,
+            scale: 3,
+            alpha: 0,
+            duration: 250,
+            onComplete: () => blast.destroy(),
+        });
+        this.sprite.destroy();
+    }
+
     /**
      * 击杀怪物
      */
     public kill(): void {
         if (!this.isAlive) return;
         this.isAlive = false;
+        this.hp = 0;
+        this.hideTelegraph();
+        this.destroyCracks();
+        this.warningRing?.destroy();
+        this.warningRing = null;
 
         // 简单的死亡效果 - 淡出
         this.scene.tweens.add({
@@ -180,6 +463,10 @@ export class Monster {
      */
     public destroy(): void {
         this.isAlive = false;
+        this.hideTelegraph();
+        this.destroyCracks();
+        this.warningRing?.destroy();
+        this.warningRing = null;
         this.sprite.destroy();
     }
 }
@@ -0,0 +1,102 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import manifestJson from '../../public/assets/Monsters/monsters.json?raw';
+import { GameConfig } from '../config';
+import { applyConfigOverlays } from '../overlays/ConfigOverlay';
+import { SeededRandom } from '../sim/SeededRandom';
+import { MonsterManager } from './MonsterManager';
+import { getReachableLanes } from './Monster';
+import type { Monster } from './Monster';
+import { isHazard, monsterRegistry } from './MonsterRegistry';
+
+// The director only needs Phaser.Math.Clamp; the scene module would pull in the whole game
+vi.mock('phaser', () => ({
+    default: { Math: { Clamp: (value: number, min: number, max: number) => Math.min(max, Math.max(min, value)) } },
+}));
+vi.mock('../scenes/GameScene', () => ({ default: class GameScene { } }));
+
+/**
+ * Scene stand-in: every property / call returns the same chainable stub (sprites, graphics, tweens...)
+ */
+function createStubScene(): any {
+    const stub: any = new Proxy(() => stub, {
+        get: (_target, prop) => (prop === 'then' ? undefined : stub),
+    });
+    return stub;
+}
+
+const SCREEN_WIDTH = 540;
+const PPM = GameConfig.display.pixelsPerMeter;
+const APEX_HEIGHTS_M = [350, 600, 900, 1500, 3000, 6000];
+const SEEDS = 150;
+
+function spawn(seed: number, apexM: number): Monster[] {
+    const manager = new MonsterManager(createStubScene(), SCREEN_WIDTH, 0, PPM, new SeededRandom(seed));
+    manager.spawnApexMonsters(apexM * PPM, 1);
+    return manager.getAliveMonsters();
+}
+
+/**
+ * Lanes covered by bombs in the window that starts at each bomb (every window with bombs starts at one)
+ */
+function findBlockedWindow(monsters: Monster[], windowM: number): number | null {
+    const bombs = monsters.filter((m) => isHazard(m.definition));
+    for (const start of bombs) {
+        const covered = new Set<number>();
+        for (const bomb of bombs) {
+            const gap = bomb.heightMeters - start.heightMeters;
+            if (gap >= 0 && gap < windowM) {
+                getReachableLanes(bomb.definition, bomb.currentLane).forEach((lane) => covered.add(lane));
+            }
+        }
+        if (covered.size >= GameConfig.lane.count) return start.heightMeters;
+    }
+    return null;
+}
+
+beforeAll(() => {
+    monsterRegistry.load(JSON.parse(manifestJson));
+});
+
+afterEach(() => {
+    applyConfigOverlays();
+});
+
+describe('director bomb placement', () => {
+    it.each([
+        { name: 'the configured window', windowM: null, bombWeight: null },
+        { name: 'a wide window', windowM: 80, bombWeight: null },
+        { name: 'a wide window with bomb-heavy spawn weights', windowM: 80, bombWeight: 5 },
+    ])('never lets bombs cover every lane within $name', ({ windowM, bombWeight }) => {
+        if (windowM !== null) {
+            applyConfigOverlays({ monster: { bomb: { blockWindowM: windowM } } });
+        }
+        if (bombWeight !== null) {
+            // Bombs become the likely pick, so the substitution has to kick in often
+            for (const def of monsterRegistry.all()) {
+                if (isHazard(def)) def.spawnWeight = bombWeight;
+            }
+        }
+
+        const window = GameConfig.monster.bomb.blockWindowM;
+        let bombs = 0;
+        try {
+            for (let seed = 1; seed <= SEEDS; seed++) {
+                for (const apexM of APEX_HEIGHTS_M) {
+                    const monsters = spawn(seed, apexM);
+                    bombs += monsters.filter((m) => isHazard(m.definition)).length;
+                    expect(findBlockedWindow(monsters, window), `seed ${seed}, apex ${apexM}m`).toBeNull();
+                }
+            }
+        } finally {
+            monsterRegistry.load(JSON.parse(manifestJson));
+        }
+
+        // The layouts actually contained bombs to check
+        expect(bombs).toBeGreaterThan(SEEDS);
+    });
+
+    it('is reproducible for a seed', () => {
+        const layout = (monsters: Monster[]) => monsters.map((m) => `${m.definition.id}@${m.currentLane}:${m.heightMeters.toFixed(3)}`);
+        expect(layout(spawn(42, 1500))).toEqual(layout(spawn(42, 1500)));
+    });
+});
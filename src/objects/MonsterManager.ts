@@ -8,9 +8,21 @@
  */
 
 import Phaser from 'phaser';
-import { Monster } from './Monster';
+import { Monster, getReachableLanes } from './Monster';
 import { GameConfig } from '../config';
 import GameScene from '../scenes/GameScene';
+import type { SeededRandom } from '../sim/SeededRandom';
+import { isHazard, monsterRegistry } from './MonsterRegistry';
+
+/** Outcome of one lane-switch slash */
+export interface SlashResult {
+    hits: number;       // Monsters damaged (including the ones killed)
+    kills: number;
+    score: number;      // Sum of the killed types' score values
+    bombs: number;      // Bombs set off (not counted as hits / kills)
+    damage: number;     // Bomb damage to apply to the player
+    energyDrain: number; // Bullet-time energy (s) to drain
+}
 
 export class MonsterManager {
     private scene: Phaser.Scene;
@@ -19,11 +31,26 @@ export class MonsterManager {
     private groundY: number;
     private pixelsPerMeter: number;
 
-    constructor(scene: Phaser.Scene, screenWidth: number, groundY: number, pixelsPerMeter: number) {
+    // 可复现随机：导演 (生成布局) 与怪物 AI 使用独立子流
+    private directorRng: SeededRandom;
+    private aiRng: SeededRandom;
+
+    // 模拟时钟 (毫秒) - 随 simDt 推进，子弹时间/暂停时与物理保持一致
+    private simTimeMs: number = 0;
+
+    // 练习模式关闭导演生成
+    public spawningEnabled: boolean = true;
+
+    // 玩家设置：减少动态效果 (新生成和已存在的怪物都跟随)
+    private reducedMotion: boolean = false;
+
+    constructor(scene: Phaser.Scene, screenWidth: number, groundY: number, pixelsPerMeter: number, rng: SeededRandom) {
         this.scene = scene;
         this.screenWidth = screenWidth;
         this.groundY = groundY;
         this.pixelsPerMeter = pixelsPerMeter;
+        this.directorRng = rng.fork();
+        this.aiRng = rng.fork();
     }
 
     /**
@@ -38,14 +65,21 @@ export class MonsterManager {
         }
     }
 
+    public setReducedMotion(reducedMotion: boolean): void {
+        this.reducedMotion = reducedMotion;
+        for (const monster of this.monsters) {
+            monster.reducedMotion = reducedMotion;
+        }
+    }
+
     /**
      * Update all monsters
      */
     public update(dt: number): void {
-        const currentTime = this.scene.time.now;
+        this.simTimeMs += dt * 1000;
         for (const monster of this.monsters) {
             if (monster.isAlive) {
-                monster.update(dt, currentTime);
+                monster.update(dt, this.simTimeMs);
             }
         }
     }
@@ -59,17 +93,15 @@ export class MonsterManager {
         // Ghost Mode: Player passes through monsters when ascending
         if (isAscending) return false;
 
-        const monsterRadius = GameConfig.monster.a01.size / 1.2;
-        const collisionThresholdSq = (playerRadius + monsterRadius) * (playerRadius + monsterRadius);
-
         for (const monster of this.monsters) {
             if (!monster.isAlive) continue;
 
+            const threshold = playerRadius + monster.definition.hitboxRadius;
             const dx = monster.x - playerX;
             const dy = monster.y - playerY;
             const distSq = dx * dx + dy * dy;
 
-            if (distSq < collisionThresholdSq) {
+            if (distSq < threshold * threshold) {
                 return true; // Collision detected
             }
         }
@@ -78,14 +110,15 @@ export class MonsterManager {
     }
 
     /**
-     * 扇形碰撞检测 - 在玩家攻击方向的扇形区域内击杀怪物
+     * 扇形碰撞检测 - 对玩家攻击方向扇形区域内的怪物造成一次伤害 (装甲怪物需要多次斩击)
+     * 击杀效果按类型 (onHit)：普通怪物回能，炸弹爆炸并把伤害 / 抽能记入结果由 GameScene 结算
      * @param swipeDirection 滑动方向 (-1=左, 1=右)
      * @param playerX 玩家X坐标（攻击命中帧时的位置）
      * @param playerY 玩家Y坐标（攻击命中帧时的位置）
-     * @returns 击杀的怪物数量
+     * @returns 命中 / 击杀数量与得分
      */
-    public checkSectorCollision(swipeDirection: -1 | 1, playerX: number, playerY: number): number {
-        let killCount = 0;
+    public checkSectorCollision(swipeDirection: -1 | 1, playerX: number, playerY: number): SlashResult {
+        const result: SlashResult = { hits: 0, kills: 0, score: 0, bombs: 0, damage: 0, energyDrain: 0 };
 
         // 扇形范围参数
         const hitRangeYMeters = 2;   // Y轴容差：±2米
@@ -114,18 +147,37 @@ export class MonsterManager {
 
             // 检查Y轴距离是否在扇形范围内
             const yDistance = Math.abs(monster.y - playerY);
-            if (yDistance < hitRangeYPixels) {
-                monster.kill();
-                killCount++;
+            if (yDistance >= hitRangeYPixels) continue;
+
+            const { onHit, onHitAmount } = monster.definition;
+            switch (onHit) {
+                case 'damage':
+                case 'drain':
+                    monster.explode();
+                    result.bombs++;
+                    if (onHit === 'damage') {
+                        result.damage += onHitAmount;
+                    } else {
+                        result.energyDrain += onHitAmount;
+                    }
+                    break;
 
-                // Trigger Bullet Time Refund (if active)
-                if (this.scene instanceof GameScene) {
-                    (this.scene as any).bulletTimeManager?.onKill();
-                }
+                case 'refund':
+                    result.hits++;
+                    if (!monster.hit(swipeDirection)) break;
+
+                    result.kills++;
+                    result.score += monster.definition.score;
+
+                    // Trigger Bullet Time Refund (if active)
+                    if (this.scene instanceof GameScene) {
+                        (this.scene as any).bulletTimeManager?.onKill();
+                    }
+                    break;
             }
         }
 
-        return killCount;
+        return result;
     }
 
     /**
@@ -210,7 +262,7 @@ export class MonsterManager {
         const director = GameConfig.monster.director;
         
         // 检查是否启用动态导演系统
-        if (!director?.enabled) return;
+        if (!director?.enabled || !this.spawningEnabled) return;
 
         // 计算生成区域 (米)
         const apexHeightM = predictedApexHeightPx / this.pixelsPerMeter;
@@ -306,9 +358,14 @@ export class MonsterManager {
         const sameSideBonus = dynamicSpacingCfg?.sameSideBonus ?? 1.0;
         const diagonalBonus = dynamicSpacingCfg?.diagonalBonus ?? 1.2;
         
-        // 追踪上一只怪物
+        // 追踪上一只怪物 (换道怪物按它可能到达的所有通道计算)
         let prevLane: number | null = null;
+        let prevLanes: number[] = [];
         let lastSpawnHeightM = rangeStartM;
+
+        // 最近的炸弹：同一高度范围内的炸弹不能封死全部通道
+        const bombWindowM = GameConfig.monster.bomb.blockWindowM;
+        const recentBombs: { heightM: number; lanes: number[] }[] = [];
         
         // 根据高度获取交替概率 (分段线性插值)
         const getAlternateChance = (heightM: number): number => {
@@ -340,29 +397,46 @@ export class MonsterManager {
             
             if (prevLane === null) {
                 // 第一只怪：随机三个通道
-                lane = Phaser.Math.Between(0, 2);
-            } else if (Math.random() < alternateChance) {
+                lane = this.directorRng.between(0, 2);
+            } else if (this.directorRng.next() < alternateChance) {
                 // 交替模式：优先选择与上一只不同的通道
                 const otherLanes = [0, 1, 2].filter(l => l !== prevLane);
-                lane = otherLanes[Math.floor(Math.random() * otherLanes.length)];
+                lane = this.directorRng.pick(otherLanes);
             } else {
                 // 非交替：完全随机（可能同侧）
-                lane = Phaser.Math.Between(0, 2);
+                lane = this.directorRng.between(0, 2);
             }
             
+            // 按高度从清单里选类型 (只有一种可选时不消耗随机数)
+            // 用最小间距处的高度选择，因为类型决定了下面的间距
+            let definition = monsterRegistry.pickForHeight(lastSpawnHeightM + baseSpacing, this.directorRng);
+            if (definition && isHazard(definition)
+                && this.bombWouldBlockAllLanes(recentBombs, getReachableLanes(definition, lane), lastSpawnHeightM + baseSpacing, bombWindowM)) {
+                // 换成非炸弹类型 (实际高度只会更高，按最小间距检查更严格)
+                definition = monsterRegistry.pickForHeight(lastSpawnHeightM + baseSpacing, this.directorRng, (def) => !isHazard(def));
+            }
+            if (!definition) {
+                break;
+            }
+            const lanes = getReachableLanes(definition, lane);
+
             // ===== 计算当前怪物的间距 =====
             let currentSpacing = baseSpacing;
             
             if (prevLane !== null) {
-                // 同侧加成 (同一通道)
-                if (lane === prevLane) {
-                    currentSpacing = baseSpacing * (1 + sameSideBonus);
+                // 两只怪物可能出现的通道之间的最近 / 最远距离
+                const gaps = prevLanes.flatMap((a) => lanes.map((b) => Math.abs(a - b)));
+                let bonus = 0;
+                // 同侧加成 (可能在同一通道)
+                if (Math.min(...gaps) === 0) {
+                    bonus = Math.max(bonus, sameSideBonus);
                 }
-                // 对角加成 (左↔右，跨两个通道)
-                else if (Math.abs(lane - prevLane) === 2) {
-                    currentSpacing = baseSpacing * (1 + diagonalBonus);
+                // 对角加成 (左↔右，可能跨两个通道)
+                if (Math.max(...gaps) === 2) {
+                    bonus = Math.max(bonus, diagonalBonus);
                 }
                 // 相邻通道：基础间距
+                currentSpacing = baseSpacing * (1 + bonus);
             }
             
             // 计算这只怪物的高度
@@ -372,20 +446,24 @@ export class MonsterManager {
             if (heightM > rangeEndM) {
                 break; // 区域已满，停止生成
             }
-            
+
             prevLane = lane;
+            prevLanes = lanes;
             lastSpawnHeightM = heightM;
             spawnedCount++;
+            if (isHazard(definition)) {
+                recentBombs.push({ heightM, lanes });
+            }
 
             // 计算位置 - 在通道内随机偏移
-            let laneOffset = Phaser.Math.FloatBetween(-laneWidth * 0.15, laneWidth * 0.15);
+            let laneOffset = this.directorRng.floatBetween(-laneWidth * 0.15, laneWidth * 0.15);
             let x = (lane + 0.5) * laneWidth + laneOffset;
             
             // ===== 中间通道特殊处理：避开屏幕正中心 =====
             if (lane === 1) {
                 // 如果太靠近屏幕中心，随机偏向左或右
                 if (Math.abs(x - screenCenterX) < avoidCenterRadius) {
-                    const offsetDirection = Math.random() < 0.5 ? -1 : 1;
+                    const offsetDirection = this.directorRng.next() < 0.5 ? -1 : 1;
                     x = screenCenterX + offsetDirection * (avoidCenterRadius + laneWidth * 0.1);
                 }
             }
@@ -393,12 +471,14 @@ export class MonsterManager {
 
             // 创建怪物 (带速度倍率)
             const monster = new Monster(this.scene, {
-                type: 'A01',
+                definition,
                 x: Phaser.Math.Clamp(x, 30, this.screenWidth - 30),
                 y: worldY,
                 heightMeters: heightM,
                 speedMultiplier: speedMultiplier,
-            }, this.screenWidth);
+                spawnTime: this.simTimeMs,
+                reducedMotion: this.reducedMotion,
+            }, this.screenWidth, this.aiRng);
 
             this.monsters.push(monster);
         }
@@ -410,6 +490,20 @@ export class MonsterManager {
         }
     }
 
+    /**
+     * True if bombs within the window (plus a new one on these lanes) would cover every lane,
+     * leaving no lane the player can switch into without slashing a bomb
+     */
+    private bombWouldBlockAllLanes(recentBombs: { heightM: number; lanes: number[] }[], lanes: number[], heightM: number, windowM: number): boolean {
+        const covered = new Set(lanes);
+        for (const bomb of recentBombs) {
+            if (heightM - bomb.heightM < windowM) {
+                bomb.lanes.forEach((l) => covered.add(l));
+            }
+        }
+        return covered.size >= GameConfig.lane.count;
+    }
+
     /**
      * 清理所有怪物
      */
@@ -0,0 +1,181 @@
+/**
+ * MonsterRegistry - 怪物定义表 (数据驱动)
+ *
+ * 所有怪物类型都写在 public/assets/Monsters/monsters.json 里：
+ * 贴图帧、尺寸、碰撞半径、血量、速度范围、行为、被斩效果、分值、生成权重。
+ * GameScene.preload 读取清单并加载贴图，create 时按定义创建动画；
+ * Monster / MonsterManager 只读这里的定义。新增怪物 = 放贴图 + 在清单里加一项。
+ */
+
+import type { SeededRandom } from '../sim/SeededRandom';
+
+export const MONSTER_MANIFEST_KEY = 'monster-manifest';
+export const MONSTER_MANIFEST_URL = 'assets/Monsters/monsters.json';
+
+/** Movement behaviors a definition can ask for (implemented in Monster) */
+export const MONSTER_BEHAVIORS = ['patrol', 'laneHop'] as const;
+export type MonsterBehaviorId = typeof MONSTER_BEHAVIORS[number];
+
+/**
+ * What a slash that finishes the monster does
+ * refund: normal kill (score + bullet-time refund)
+ * damage / drain: bomb - explodes, hurting the player (HP) or draining bullet-time energy (s)
+ */
+export const MONSTER_HIT_EFFECTS = ['refund', 'damage', 'drain'] as const;
+export type MonsterHitEffectId = typeof MONSTER_HIT_EFFECTS[number];
+
+export type MonsterFacing = 'left' | 'right';
+
+export interface MonsterDefinition {
+    id: string;
+    frames: Record<MonsterFacing, string[]>;    // Image paths per facing (animation order)
+    frameRate: number;
+    size: number;               // Display size (px)
+    hitboxRadius: number;       // Body collision radius against the player (px)
+    hp: number;                 // Slash hits needed to kill
+    speedMin: number;           // Base patrol speed range (px/s, scaled by the director's height multiplier)
+    speedMax: number;
+    behavior: MonsterBehaviorId;
+    score: number;              // Kill score
+    spawnWeight: number;        // Relative chance among the types allowed at a height
+    minHeightM: number;         // Lowest height (m) the director spawns this type at
+    tint: number | null;        // Sprite tint (variants sharing another type's frames)
+    fireIntervalMs: number;     // Ranged monsters: time between shots (0 = never fires)
+    onHit: MonsterHitEffectId;
+    onHitAmount: number;        // Damage dealt / energy drained (s) by bombs
+}
+
+export interface MonsterManifest {
+    monsters: unknown[];
+}
+
+class MonsterRegistry {
+    private definitions = new Map<string, MonsterDefinition>();
+
+    public get isLoaded(): boolean {
+        return this.definitions.size > 0;
+    }
+
+    /**
+     * Register every valid entry of the manifest (invalid entries are skipped with a warning)
+     */
+    public load(manifest: MonsterManifest | null | undefined): void {
+        const entries = Array.isArray(manifest?.monsters) ? manifest.monsters : [];
+        for (const entry of entries) {
+            const definition = parseDefinition(entry);
+            if (definition) {
+                this.definitions.set(definition.id, definition);
+            } else {
+                console.warn('[MonsterRegistry] Skipping invalid monster definition', entry);
+            }
+        }
+        if (!this.isLoaded) {
+            console.warn('[MonsterRegistry] No monster definitions loaded, the director will not spawn');
+        }
+    }
+
+    public get(id: string): MonsterDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    public all(): MonsterDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    /**
+     * Weighted pick among the types allowed at this height
+     * (no random draw when only one type qualifies, so single-type layouts stay seed-stable)
+     * @param filter - Extra restriction (e.g. no bombs)
+     */
+    public pickForHeight(heightM: number, rng: SeededRandom, filter?: (def: MonsterDefinition) => boolean): MonsterDefinition | null {
+        const candidates = this.all().filter((def) => heightM >= def.minHeightM && def.spawnWeight > 0 && (!filter || filter(def)));
+        if (candidates.length <= 1) return candidates[0] ?? null;
+
+        const total = candidates.reduce((sum, def) => sum + def.spawnWeight, 0);
+        let roll = rng.next() * total;
+        for (const def of candidates) {
+            roll -= def.spawnWeight;
+            if (roll < 0) return def;
+        }
+        return candidates[candidates.length - 1];
+    }
+}
+
+/**
+ * Bombs must not be slashed (the director keeps a lane free of them)
+ */
+export function isHazard(definition: MonsterDefinition): boolean {
+    return definition.onHit !== 'refund';
+}
+
+/**
+ * Texture key of one animation frame ("monster_a01_left_1")
+ */
+export function getMonsterFrameKey(definition: MonsterDefinition, facing: MonsterFacing, index: number): string {
+    return `${getMonsterAnimKey(definition, facing)}_${index + 1}`;
+}
+
+/**
+ * Walk animation key ("monster_a01_left")
+ */
+export function getMonsterAnimKey(definition: MonsterDefinition, facing: MonsterFacing): string {
+    return `monster_${definition.id.toLowerCase()}_${facing}`;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string');
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseDefinition(raw: unknown): MonsterDefinition | null {
+    const data = raw as Record<string, any> | null;
+    if (typeof data?.id !== 'string' || !data.id) return null;
+    if (!isStringList(data.frames?.left) || !isStringList(data.frames?.right)) return null;
+    if (!isNumber(data.size) || !isNumber(data.speedMin) || !isNumber(data.speedMax)) return null;
+
+    const knownBehavior = (MONSTER_BEHAVIORS as readonly string[]).includes(data.behavior);
+    if (data.behavior !== undefined && !knownBehavior) {
+        console.warn(`[MonsterRegistry] ${data.id}: unknown behavior "${data.behavior}", using patrol`);
+    }
+    const behavior: MonsterBehaviorId = knownBehavior ? data.behavior : 'patrol';
+
+    const knownHitEffect = (MONSTER_HIT_EFFECTS as readonly string[]).includes(data.onHit);
+    if (data.onHit !== undefined && !knownHitEffect) {
+        console.warn(`[MonsterRegistry] ${data.id}: unknown onHit "${data.onHit}", using refund`);
+    }
+    const onHit: MonsterHitEffectId = knownHitEffect ? data.onHit : 'refund';
+    return {
+        id: data.id,
+        frames: { left: data.frames.left, right: data.frames.right },
+        frameRate: isNumber(data.frameRate) ? data.frameRate : 8,
+        size: data.size,
+        hitboxRadius: isNumber(data.hitboxRadius) ? data.hitboxRadius : data.size / 1.2,
+        hp: isNumber(data.hp) ? Math.max(1, Math.round(data.hp)) : 1,
+        speedMin: data.speedMin,
+        speedMax: data.speedMax,
+        behavior,
+        score: isNumber(data.score) ? data.score : 1,
+        spawnWeight: isNumber(data.spawnWeight) ? data.spawnWeight : 1,
+        minHeightM: isNumber(data.minHeightM) ? data.minHeightM : 0,
+        tint: parseColor(data.tint),
+        fireIntervalMs: isNumber(data.fireIntervalMs) ? Math.max(0, data.fireIntervalMs) : 0,
+        onHit,
+        onHitAmount: isNumber(data.onHitAmount) ? Math.max(0, data.onHitAmount) : 0,
+    };
+}
+
+/**
+ * "#ff9966" or 0xff9966 (null if absent / invalid)
+ */
+function parseColor(value: unknown): number | null {
+    if (isNumber(value)) return value;
+    if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) {
+        return parseInt(value.slice(1), 16);
+    }
+    return null;
+}
+
+export const monsterRegistry = new MonsterRegistry();
@@ -0,0 +1,154 @@
+import Phaser from 'phaser';
+import { MAX_PLAYER_NAME_LENGTH } from '../storage/Leaderboard';
+import { t } from '../i18n/I18n';
+
+export interface NameEntryOptions {
+    title: string;
+    defaultName: string;
+    depth: number;
+    onSubmit: (name: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * NameEntryPrompt - 排行榜上榜时的输入名字弹窗
+ *
+ * 画布里没有原生输入框，所以用一个透明的 DOM <input> 接收键盘 (移动端点击名字时弹出软键盘)，
+ * 输入内容同步显示在 Phaser 文本上。弹窗打开期间禁用场景键盘事件 (避免空格触发重新开始)。
+ */
+export class NameEntryPrompt {
+    private scene: Phaser.Scene;
+    private options: NameEntryOptions;
+    private objects: Phaser.GameObjects.GameObject[] = [];
+    private nameText: Phaser.GameObjects.Text;
+    private inputElement: HTMLInputElement;
+    private keyboardWasEnabled: boolean;
+    private closed: boolean = false;
+
+    constructor(scene: Phaser.Scene, options: NameEntryOptions) {
+        this.scene = scene;
+        this.options = options;
+
+        const { width, height } = scene.scale;
+        const depth = options.depth;
+
+        // Modal background (blocks the buttons underneath)
+        const overlay = scene.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.75)
+            .setScrollFactor(0).setDepth(depth).setInteractive();
+
+        const title = scene.add.text(width / 2, height * 0.36, options.title, {
+            fontSize: `${Math.max(24, Math.floor(width * 0.065))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffff00',
+            stroke: '#000000',
+            strokeThickness: 6,
+            align: 'center'
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(depth + 1);
+
+        this.nameText = scene.add.text(width / 2, height * 0.46, '', {
+            fontSize: `${Math.max(24, Math.floor(width * 0.07))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            backgroundColor: '#222244',
+            padding: { x: 16, y: 8 }
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(depth + 1).setInteractive({ useHandCursor: true });
+
+        // Tap the name to (re)open the soft keyboard on mobile
+        this.nameText.on('pointerdown', () => this.inputElement.focus());
+
+        const okButton = this.createButton(width * 0.35, height * 0.57, t('button.ok'), '#00ff00', () => this.submit());
+        const skipButton = this.createButton(width * 0.65, height * 0.57, t('button.skip'), '#aaaaaa', () => this.cancel());
+
+        this.objects.push(overlay, title, this.nameText, okButton, skipButton);
+
+        // Hidden DOM input receives the actual typing
+        this.inputElement = document.createElement('input');
+        this.inputElement.type = 'text';
+        this.inputElement.maxLength = MAX_PLAYER_NAME_LENGTH;
+        this.inputElement.value = options.defaultName;
+        this.inputElement.autocomplete = 'off';
+        Object.assign(this.inputElement.style, {
+            position: 'fixed',
+            left: '0',
+            top: '0',
+            opacity: '0',
+            width: '1px',
+            height: '1px',
+        });
+        this.inputElement.addEventListener('input', this.onInput);
+        this.inputElement.addEventListener('keydown', this.onKeyDown);
+        document.body.appendChild(this.inputElement);
+        this.inputElement.focus();
+
+        // Scene keyboard shortcuts are suspended while typing
+        const keyboard = scene.input.keyboard;
+        this.keyboardWasEnabled = keyboard?.enabled ?? false;
+        if (keyboard) keyboard.enabled = false;
+
+        scene.events.once('shutdown', this.destroy, this);
+        this.refreshText();
+    }
+
+    public destroy(): void {
+        if (this.closed) return;
+        this.closed = true;
+
+        this.inputElement.removeEventListener('input', this.onInput);
+        this.inputElement.removeEventListener('keydown', this.onKeyDown);
+        this.inputElement.remove();
+
+        const keyboard = this.scene.input.keyboard;
+        if (keyboard) keyboard.enabled = this.keyboardWasEnabled;
+
+        this.scene.events.off('shutdown', this.destroy, this);
+        this.objects.forEach((obj) => obj.destroy());
+        this.objects = [];
+    }
+
+    private submit(): void {
+        const name = this.inputElement.value;
+        this.destroy();
+        this.options.onSubmit(name);
+    }
+
+    private cancel(): void {
+        this.destroy();
+        this.options.onCancel();
+    }
+
+    private onInput = (): void => {
+        this.refreshText();
+    };
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            this.submit();
+        } else if (event.key === 'Escape') {
+            event.preventDefault();
+            this.cancel();
+        }
+    };
+
+    private refreshText(): void {
+        this.nameText.setText(`${this.inputElement.value}_`);
+    }
+
+    private createButton(x: number, y: number, label: string, color: string, onClick: () => void): Phaser.GameObjects.Text {
+        const button = this.scene.add.text(x, y, label, {
+            fontSize: `${Math.max(22, Math.floor(this.scene.scale.width * 0.06))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color,
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(this.options.depth + 1).setInteractive({ useHandCursor: true });
+
+        button.on('pointerover', () => button.setScale(1.1));
+        button.on('pointerout', () => button.setScale(1.0));
+        button.on('pointerdown', onClick);
+        return button;
+    }
+}
@@ -0,0 +1,115 @@
+import Phaser from 'phaser';
+import { summarizeReleaseTiming } from '../sim/RunStats';
+import type { PracticeDrill } from '../sim/PracticeDrill';
+import { i18n, t } from '../i18n/I18n';
+
+/**
+ * PracticeHud - 练习模式的屏幕 HUD
+ *
+ * 左上角显示下落高度、PERFECT 率和平均时机，下方是本次练习所有松开时机的直方图
+ * (与结算面板相同的分桶，中间一格为 "准时")。
+ */
+
+const BAR_COLOR_EARLY = 0x7fd4ff;
+const BAR_COLOR_LATE = 0xffb347;
+const BAR_COLOR_CENTER = 0xffff00;
+
+export class PracticeHud {
+    private drill: PracticeDrill;
+    private text: Phaser.GameObjects.Text;
+    private histogram: Phaser.GameObjects.Graphics;
+    private formatHeight: (meters: number) => string;
+
+    private x: number = 16;
+    private y: number = 16;
+    private width: number = 200;
+
+    /**
+     * @param formatHeight - Height in the player's unit (GameScene.formatHeight)
+     */
+    constructor(scene: Phaser.Scene, drill: PracticeDrill, formatHeight: (meters: number) => string) {
+        this.drill = drill;
+        this.formatHeight = formatHeight;
+
+        this.text = scene.add.text(this.x, this.y, '', {
+            fontSize: '20px',
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4,
+            lineSpacing: 4
+        }).setScrollFactor(0).setDepth(200);
+        i18n.bind(this.text, () => this.describe());
+
+        this.histogram = scene.add.graphics().setScrollFactor(0).setDepth(200);
+        this.refresh();
+    }
+
+    /**
+     * Safe frame top-left corner and width (9:16 layout)
+     */
+    public layout(x: number, y: number, safeWidth: number): void {
+        this.x = x + 16;
+        this.y = y + 16;
+        this.width = Math.min(240, safeWidth * 0.45);
+        this.text.setFontSize(Math.max(14, Math.min(22, Math.floor(safeWidth * 0.04))));
+        this.text.setPosition(this.x, this.y);
+        this.refresh();
+    }
+
+    /**
+     * Redraw after an attempt
+     */
+    public refresh(): void {
+        this.text.setText(this.describe());
+        this.drawHistogram();
+    }
+
+    private describe(): string {
+        const drill = this.drill;
+        const timing = summarizeReleaseTiming(drill.releaseOffsetsMs);
+        const lines = [
+            t('practice.hudTitle', { height: this.formatHeight(drill.dropHeightM) }),
+            t('practice.hudRate', {
+                perfect: i18n.formatNumber(drill.perfectCount),
+                attempts: i18n.formatNumber(drill.attempts),
+                rate: i18n.formatNumber(drill.perfectRate * 100),
+            }),
+        ];
+        if (timing.count > 0) {
+            const mean = Math.round(timing.meanMs);
+            lines.push(t('practice.hudMean', { offset: (mean > 0 ? '+' : mean < 0 ? '-' : '') + i18n.formatNumber(Math.abs(mean)) }));
+        }
+        return lines.join('\n');
+    }
+
+    private drawHistogram(): void {
+        const g = this.histogram;
+        g.clear();
+
+        const timing = summarizeReleaseTiming(this.drill.releaseOffsetsMs);
+        if (timing.count === 0) return;
+
+        const top = this.y + this.text.height + 8;
+        const barHeight = 48;
+        const gap = 3;
+        const barWidth = (this.width - gap * (timing.buckets.length - 1)) / timing.buckets.length;
+        const maxCount = Math.max(...timing.buckets.map((bucket) => bucket.count));
+        const centerIndex = Math.floor(timing.buckets.length / 2);
+
+        g.fillStyle(0x000000, 0.4);
+        g.fillRect(this.x - 4, top - 4, this.width + 8, barHeight + 8);
+
+        timing.buckets.forEach((bucket, i) => {
+            const h = bucket.count > 0 ? Math.max(2, barHeight * bucket.count / maxCount) : 0;
+            const color = i === centerIndex ? BAR_COLOR_CENTER : i < centerIndex ? BAR_COLOR_EARLY : BAR_COLOR_LATE;
+            g.fillStyle(color, 0.9);
+            g.fillRect(this.x + i * (barWidth + gap), top + barHeight - h, barWidth, h);
+        });
+
+        // Center line (perfectly on time)
+        g.lineStyle(1, 0xffffff, 0.6);
+        g.lineBetween(this.x + this.width / 2, top, this.x + this.width / 2, top + barHeight);
+    }
+}
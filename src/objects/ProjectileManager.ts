@@ -0,0 +1,122 @@
+/**
+ * ProjectileManager - 怪物弹幕
+ *
+ * 远程怪物 (清单里 fireIntervalMs > 0) 只在子弹时间内开火：
+ * 弹体朝玩家开火瞬间所在通道的中心缓慢飞下，换道就能躲开。
+ * 弹体按缩放后的 simDt 移动 (与物理、怪物同一时钟)，命中玩家时通过 SlimeHealthManager 扣血。
+ */
+
+import Phaser from 'phaser';
+import { GameConfig } from '../config';
+import { DeathCause } from '../sim/DeathCause';
+import type { Monster } from './Monster';
+import type { SlimeHealthManager } from './SlimeHealthManager';
+
+/** What projectiles aim at and collide with (the Slime) */
+export interface ProjectileTarget {
+    x: number;
+    y: number;
+    radius: number;
+    currentLane: number;
+    getLaneCenterX(lane: number): number;
+}
+
+interface Projectile {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    age: number;            // Sim seconds since fired
+    sprite: Phaser.GameObjects.Arc;
+}
+
+export class ProjectileManager {
+    private scene: Phaser.Scene;
+    private projectiles: Projectile[] = [];
+    private pixelsPerMeter: number;
+
+    constructor(scene: Phaser.Scene, pixelsPerMeter: number) {
+        this.scene = scene;
+        this.pixelsPerMeter = pixelsPerMeter;
+    }
+
+    /**
+     * Fire (bullet time only), move and collide
+     * @param simDt - Scaled sim seconds of this step
+     * @returns Number of shots fired this step
+     */
+    public update(simDt: number, monsters: Monster[], bulletTime: boolean, target: ProjectileTarget, health: SlimeHealthManager): number {
+        const cfg = GameConfig.monster.projectile;
+        const fired = bulletTime ? this.fire(monsters, target) : 0;
+
+        const hitDistance = target.radius + cfg.radius;
+        for (const p of this.projectiles) {
+            p.x += p.vx * simDt;
+            p.y += p.vy * simDt;
+            p.age += simDt;
+            p.sprite.setPosition(p.x, p.y);
+
+            const dx = p.x - target.x;
+            const dy = p.y - target.y;
+            if (dx * dx + dy * dy < hitDistance * hitDistance) {
+                health.takeDamage(cfg.damage, DeathCause.MONSTER_DAMAGE);
+                p.age = Infinity;   // Consumed
+            }
+        }
+
+        // Expired / consumed / far below the player
+        const bottom = target.y + cfg.maxRangeM * this.pixelsPerMeter;
+        this.projectiles = this.projectiles.filter((p) => {
+            const keep = p.age < cfg.lifetimeSec && p.y < bottom;
+            if (!keep) p.sprite.destroy();
+            return keep;
+        });
+        return fired;
+    }
+
+    /**
+     * Ranged monsters above the player (and close enough to matter) shoot at the player's lane
+     */
+    private fire(monsters: Monster[], target: ProjectileTarget): number {
+        const cfg = GameConfig.monster.projectile;
+        let fired = 0;
+        const maxRangePx = cfg.maxRangeM * this.pixelsPerMeter;
+        const aimX = target.getLaneCenterX(target.currentLane);
+
+        for (const monster of monsters) {
+            if (this.projectiles.length >= cfg.maxAlive) break;
+
+            const above = target.y - monster.y;
+            if (above <= 0 || above > maxRangePx) continue;
+            if (!monster.tryFire()) continue;
+
+            const dx = aimX - monster.x;
+            const dy = target.y - monster.y;
+            const len = Math.max(1, Math.hypot(dx, dy));
+            const sprite = this.scene.add.circle(monster.x, monster.y, cfg.radius, 0xff3355)
+                .setStrokeStyle(3, 0xffdd66)
+                .setDepth(7);
+
+            this.projectiles.push({
+                x: monster.x,
+                y: monster.y,
+                vx: dx / len * cfg.speed,
+                vy: dy / len * cfg.speed,
+                age: 0,
+                sprite,
+            });
+            fired++;
+        }
+        return fired;
+    }
+
+    /**
+     * Landing clears the stage (same rule as monsters)
+     */
+    public clear(): void {
+        for (const p of this.projectiles) {
+            p.sprite.destroy();
+        }
+        this.projectiles = [];
+    }
+}
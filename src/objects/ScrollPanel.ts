@@ -0,0 +1,134 @@
+import Phaser from 'phaser';
+
+/**
+ * ScrollPanel - 屏幕空间的可滚动列表 (结算统计等)
+ *
+ * 内容超出面板高度时可用鼠标滚轮或拖动滚动，右侧显示滚动条。
+ * Rows are [label, value] pairs, label left-aligned and value right-aligned.
+ */
+export class ScrollPanel {
+    private scene: Phaser.Scene;
+    private bounds: Phaser.Geom.Rectangle;
+    private background: Phaser.GameObjects.Rectangle;
+    private content: Phaser.GameObjects.Container;
+    private maskShape: Phaser.GameObjects.Graphics;
+    private scrollbar: Phaser.GameObjects.Graphics;
+
+    private scrollY: number = 0;
+    private contentHeight: number = 0;
+    private dragLastY: number | null = null;
+
+    private readonly PADDING = 16;
+
+    /**
+     * @param x, y - Top-left corner in screen space
+     */
+    constructor(scene: Phaser.Scene, x: number, y: number, width: number, height: number, depth: number) {
+        this.scene = scene;
+        this.bounds = new Phaser.Geom.Rectangle(x, y, width, height);
+
+        this.background = scene.add.rectangle(x, y, width, height, 0x111122, 0.85)
+            .setOrigin(0, 0)
+            .setStrokeStyle(2, 0x444466)
+            .setScrollFactor(0)
+            .setDepth(depth)
+            .setInteractive();
+
+        this.content = scene.add.container(x, y).setScrollFactor(0).setDepth(depth + 1);
+
+        // Clip content to the panel (mask graphics stays off the display list)
+        this.maskShape = scene.make.graphics({}, false);
+        this.maskShape.setScrollFactor(0);
+        this.maskShape.fillStyle(0xffffff);
+        this.maskShape.fillRect(x, y, width, height);
+        this.content.setMask(this.maskShape.createGeometryMask());
+
+        this.scrollbar = scene.add.graphics().setScrollFactor(0).setDepth(depth + 2);
+
+        // Mouse wheel over the panel
+        scene.input.on('wheel', this.onWheel, this);
+
+        // Touch / mouse drag
+        this.background.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+            this.dragLastY = pointer.y;
+        });
+        scene.input.on('pointermove', this.onPointerMove, this);
+        scene.input.on('pointerup', this.onPointerUp, this);
+    }
+
+    /**
+     * Replace the panel content
+     * @param highlightRow - Row drawn in highlight color (e.g. the player's new leaderboard entry)
+     */
+    public setRows(rows: Array<[string, string]>, fontSize: number = 24, highlightRow: number = -1): void {
+        this.content.removeAll(true);
+
+        const innerWidth = this.bounds.width - this.PADDING * 2;
+        const rowHeight = Math.round(fontSize * 1.6);
+        const style = {
+            fontSize: `${fontSize}px`,
+            fontFamily: 'Arial',
+            color: '#ffffff'
+        };
+
+        rows.forEach(([label, value], i) => {
+            const rowY = this.PADDING + i * rowHeight;
+            const isHighlighted = i === highlightRow;
+            const labelText = this.scene.add.text(this.PADDING, rowY, label, { ...style, color: isHighlighted ? '#ffff00' : '#aaaacc' });
+            const valueText = this.scene.add.text(this.PADDING + innerWidth, rowY, value, {
+                ...style,
+                fontStyle: 'bold',
+                color: isHighlighted ? '#ffff00' : style.color
+            }).setOrigin(1, 0);
+            this.content.add([labelText, valueText]);
+        });
+
+        this.contentHeight = this.PADDING * 2 + rows.length * rowHeight;
+        this.scrollTo(0);
+    }
+
+    public scrollTo(offset: number): void {
+        const maxScroll = Math.max(0, this.contentHeight - this.bounds.height);
+        this.scrollY = Phaser.Math.Clamp(offset, 0, maxScroll);
+        this.content.setY(this.bounds.y - this.scrollY);
+        this.drawScrollbar(maxScroll);
+    }
+
+    public destroy(): void {
+        this.scene.input.off('wheel', this.onWheel, this);
+        this.scene.input.off('pointermove', this.onPointerMove, this);
+        this.scene.input.off('pointerup', this.onPointerUp, this);
+        this.background.destroy();
+        this.content.destroy();
+        this.maskShape.destroy();
+        this.scrollbar.destroy();
+    }
+
+    private drawScrollbar(maxScroll: number): void {
+        this.scrollbar.clear();
+        if (maxScroll <= 0) return;
+
+        const { x, y, width, height } = this.bounds;
+        const thumbHeight = Math.max(24, height * (height / this.contentHeight));
+        const thumbY = y + (height - thumbHeight) * (this.scrollY / maxScroll);
+
+        this.scrollbar.fillStyle(0xffffff, 0.4);
+        this.scrollbar.fillRoundedRect(x + width - 8, thumbY, 4, thumbHeight, 2);
+    }
+
+    private onWheel(pointer: Phaser.Input.Pointer, _objects: unknown, _dx: number, dy: number): void {
+        if (this.bounds.contains(pointer.x, pointer.y)) {
+            this.scrollTo(this.scrollY + dy * 0.5);
+        }
+    }
+
+    private onPointerMove(pointer: Phaser.Input.Pointer): void {
+        if (this.dragLastY === null || !pointer.isDown) return;
+        this.scrollTo(this.scrollY + (this.dragLastY - pointer.y));
+        this.dragLastY = pointer.y;
+    }
+
+    private onPointerUp(): void {
+        this.dragLastY = null;
+    }
+}
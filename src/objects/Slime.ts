@@ -5,8 +5,14 @@ import { AirborneState } from './slime/AirborneState';
 import { ChargingState } from './slime/ChargingState';
 import type { ISlimeState } from './slime/ISlimeState';
 import { SlimeHealthManager } from './SlimeHealthManager';
+import { SlimeSim } from '../sim/SlimeSim';
+import type { SimStepEvents, SlimeState } from '../sim/SlimeSim';
+import type { SeededRandom } from '../sim/SeededRandom';
+import { i18n, t } from '../i18n/I18n';
+import { STANDARD_CUE_PALETTE } from './slime/ChargeCuePalette';
+import type { ChargeCuePalette } from './slime/ChargeCuePalette';
 
-export type SlimeState = 'GROUNDED_IDLE' | 'AIRBORNE' | 'GROUND_CHARGING';
+export type { SlimeState } from '../sim/SlimeSim';
 
 import Ground from './Ground';
 import GameScene from '../scenes/GameScene';
@@ -15,76 +21,28 @@ export default class Slime {
     public graphics: Phaser.GameObjects.Sprite;
 
     public scene: Phaser.Scene;
-    public x: number;
-    public y: number;
-    public vy: number = 0; // +down, -up
-    public radius: number = GameConfig.display.playerCollisionRadius;  // Collision radius (separate from display size)
-
-    public state: SlimeState = 'AIRBORNE';
     public ground: Ground;  // Reference to Ground object
-    public groundLevel: number; // Keep for convenience (ground.y)
-
-    // Air control
-    public userAccel: number = 0; // extra +down accel
-    public holdTime: number = 0;
-    public prevSpaceDown: boolean = false;
-    public fastFallEnergy: number = 0;       // Energy accumulated during fast fall
-    public fastFallTime: number = 0;         // Time spent holding space during active descent (for energy multiplier)
-
-    // Distance-based tracking (prevent "last second charge" exploit)
-    public fallDistanceSinceApex: number = 0;     // Total fall distance from apex
-    public fastFallDistance: number = 0;          // Distance fallen while holding space
-    public prevYForFall: number = 0;              // Previous Y for calculating dy
-    public landingFallDistance: number = 0;       // Snapshot: total fall distance at landing
-    public landingFastFallDistance: number = 0;   // Snapshot: fast-fall distance at landing
-
-    // Ground/compression (physics)
-    public impactSpeed: number = 0;
-    public targetCompression: number = 0;
-    public currentCompression: number = 0;
-    public reachedPeak: boolean = false;
-    public chargeEfficiency: number = 1.0;
-    public overflow: number = 0;
-
-    // Contact bookkeeping
-    public contactHasInput: boolean = false;
-
-    // Peak / timing controls
-    public postPeakHoldTime: number = 0; // how long we held after reaching peak
-    public holdLockout: boolean = false; // if true: releasing will NOT launch (failure)
-
-    // Apex tracking (controlled growth)
-    public prevVyForApex: number = 0;
-    public lastApexHeight: number = 0;
-
-    // Difficulty snapshot (fixed at landing, avoids frame-to-frame jitter)
-    public landingApexHeight: number = 0;
-    public landingDifficulty: number = 1;
+
+    // Physics simulation (Phaser-free, drives all gameplay rules)
+    public sim: SlimeSim;
+
+    // Seeded random stream for visual jitter (reproducible per run)
+    public rng: SeededRandom;
 
     // Visual ground deformation (decoupled)
     public groundDeform: number = 0;
     public groundRecoverTau: number = 0.12;
 
-    // Yellow zone tracking for Perfect timing
-    public isInYellowZone: boolean = false;
-    public yellowZoneStartTime: number = 0;  // When yellow zone was entered
-
     // Launch feedback
     public lastLaunchRating: 'PERFECT' | 'NORMAL' | 'FAILED' | '' = '';
     public feedbackText!: Phaser.GameObjects.Text;
     public feedbackTimer: number = 0;
 
-    // Streak and Energy tracking
-    public perfectStreak: number = 0;        // Consecutive perfect count
+    // Combo display
     public comboText!: Phaser.GameObjects.Text;
+    public timingText!: Phaser.GameObjects.Text;    // "+23ms LATE" under the rating
     public comboTimer: number = 0;
 
-    // Auto Bullet Time at Apex (for PERFECT bounces > 50m)
-    public predictedApexHeight: number = 0;     // Predicted apex height in pixels (calculated at launch)
-    public launchY: number = 0;                 // Y position at launch (for calculating progress)
-    public autoBTEligible: boolean = false;     // Whether this ascent qualifies for auto bullet time
-    public autoBTActivated: boolean = false;    // Whether auto bullet time has been triggered this ascent
-
     // Charge Effect Animation
     public chargeEffectSprite!: Phaser.GameObjects.Sprite;
     public chargeEffectFrame: number = 0;          // Current frame (1-11)
@@ -107,6 +65,13 @@ export default class Slime {
     // Visual Shake (Sprite only)
     public visualShakeX: number = 0;
     public visualShakeY: number = 0;
+    public shakeScale: number = 1;          // Player setting multiplier (0 = off)
+
+    // Yellow zone timing cues (player settings)
+    public cuePalette: ChargeCuePalette = STANDARD_CUE_PALETTE;
+    public showTimingRing: boolean = true;
+    public reducedMotion: boolean = false;  // Steady yellow zone tint instead of the pulse
+    public timingRing!: Phaser.GameObjects.Graphics;   // Drawn by ChargingState
 
     // Health System
     public healthManager!: SlimeHealthManager;
@@ -115,7 +80,8 @@ export default class Slime {
     public currentLane: number = 1;              // 0=左, 1=中, 2=右
     public targetLaneX: number = 0;              // 目标X位置
     public laneSwitchLocked: boolean = false;    // 快落时锁定换道
-    private laneTween?: Phaser.Tweens.Tween;     // 换道动画
+    private laneMove?: { fromX: number; elapsed: number; ease: Function };  // 换道位移 (按物理步推进)
+    private pendingAttackHit?: { direction: -1 | 1; delay: number; onHit?: (dir: -1 | 1, x: number, y: number) => void };
     private screenWidth: number = 540;           // 画布宽度
     public facingDirection: -1 | 1 = 1;          // 朝向: -1=左, 1=右 (默认向右)
 
@@ -123,12 +89,14 @@ export default class Slime {
     private currentAnimation: string = '';
     public isPlayingAttackAnimation: boolean = false;  // 攻击动画播放中
 
-    constructor(scene: Phaser.Scene, x: number, y: number, ground: Ground) {
+    constructor(scene: Phaser.Scene, x: number, y: number, ground: Ground, rng: SeededRandom) {
         this.scene = scene;
-        this.x = x;
-        this.y = y;
         this.ground = ground;
-        this.groundLevel = ground.y;
+        this.rng = rng;
+
+        // Initialize Health Manager + physics simulation (sim starts GROUNDED_IDLE)
+        this.healthManager = new SlimeHealthManager(scene);
+        this.sim = new SlimeSim(ground, x, y, this.healthManager.model);
 
         // Use animated sprite from cyclop spritesheet
         const playerSize = GameConfig.display.playerSize;
@@ -139,12 +107,6 @@ export default class Slime {
         // Play idle animation initially (starts on ground)
         this.playAnimation('idle');
 
-        // Initial velocity (don't override y position - use the passed in value)
-        // Initial velocity (don't override y position - use the passed in value)
-        this.vy = 0;
-        this.prevVyForApex = this.vy;
-        this.prevYForFall = y;  // Initialize for distance tracking
-
         // Feedback text for Perfect/Normal/FAILED (world space, follows slime)
         this.feedbackText = scene.add.text(x, y - 80, '', {
             fontSize: '64px', // Placeholder, updated by applyUIScale
@@ -155,6 +117,16 @@ export default class Slime {
             strokeThickness: 6
         }).setOrigin(0.5).setDepth(100).setAlpha(0);
 
+        // Release timing readout (world space, under the feedback text)
+        this.timingText = scene.add.text(x, y - 40, '', {
+            fontSize: '24px', // Placeholder, updated by applyUIScale
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 3
+        }).setOrigin(0.5).setDepth(100).setAlpha(0);
+
         // Combo display (world space, BELOW slime)
         this.comboText = scene.add.text(x, y + 50, '', {
             fontSize: '32px', // Placeholder, updated by applyUIScale
@@ -184,57 +156,112 @@ export default class Slime {
         this.chargeEffectSprite.setScale(3); // Scale up the 20x16 sprite
         this.chargeEffectSprite.setVisible(false);
 
-        // Initial velocity (don't override y position - use the passed in value)
-        this.vy = 0;
-        this.prevVyForApex = this.vy;
-        this.prevYForFall = y;  // Initialize for distance tracking
+        // Timing ring (closes when the yellow zone opens)
+        this.timingRing = scene.add.graphics().setDepth(11);
 
         const gcfg = GameConfig.ground as any;
         this.groundRecoverTau = (gcfg.releaseRecoverTime ?? 0.12) as number;
 
-        // Initialize Health Manager
-        this.healthManager = new SlimeHealthManager(scene);
-
-        // Initialize States
+        // Initialize presentation states
         this.states = {
             'GROUNDED_IDLE': new IdleState(),
             'AIRBORNE': new AirborneState(),
             'GROUND_CHARGING': new ChargingState()
         };
 
-        // Set initial state - start grounded so player doesn't fall on game start
-        this.state = 'GROUNDED_IDLE';
-        this.currentState = this.states['GROUNDED_IDLE'];
+        // Initial state follows the sim (starts grounded so player doesn't fall on game start)
+        this.currentState = this.states[this.sim.state];
         this.currentState.enter(this);
 
         // Sync visual position with physics position after state initialization
         this.updateVisuals();
     }
 
-    public transitionTo(newState: SlimeState) {
+    // ------------------------------------------------------------
+    // Sim state accessors (GameScene / tweens read these directly)
+    // ------------------------------------------------------------
+    public get x(): number { return this.sim.x; }
+    public set x(value: number) { this.sim.x = value; }
+
+    public get y(): number { return this.sim.y; }
+    public set y(value: number) { this.sim.y = value; }
+
+    public get vy(): number { return this.sim.vy; }
+    public get radius(): number { return this.sim.radius; }
+    public get state(): SlimeState { return this.sim.state; }
+    public get perfectStreak(): number { return this.sim.perfectStreak; }
+
+    /**
+     * Swap the presentation state when the sim changed phase this step
+     */
+    private syncPresentationState(): void {
+        const next = this.states[this.sim.state];
+        if (next === this.currentState) return;
+
         this.currentState.exit(this);
-        this.state = newState;
-        this.currentState = this.states[newState];
+        this.currentState = next;
         this.currentState.enter(this);
     }
 
-    update(deltaMs: number, isSpaceDown: boolean) {
+    /**
+     * React to gameplay events produced by the sim step
+     */
+    private handleSimEvents(events: SimStepEvents): void {
+        const scene = this.scene as any;
+
+        // Trigger Landing Event on Scene (e.g. for clearing monsters)
+        if (events.landed && scene.onPlayerLanded) {
+            scene.onPlayerLanded();
+        }
+
+        // Lock lane switching at apex - player can only switch lanes during ascent
+        // This prevents "free" lane changes during descent without pressing input
+        if (events.apex) {
+            this.lockLaneSwitch();
+        }
+
+        if (events.rating) {
+            this.showFeedback(events.rating, events.releaseOffsetMs);
+        }
+
+        // ===== 动态导演系统：在 PERFECT 跳跃顶点生成怪物 =====
+        // 确保子弹时间（高光时刻）有怪物可打
+        if (events.launch?.autoBulletTime && scene.monsterManager) {
+            scene.monsterManager.spawnApexMonsters(events.launch.predictedApexHeight, this.currentLane);
+        }
+
+        // Auto bullet time at 80% of predicted apex (force, no energy cost)
+        if (events.autoBulletTimeApexM !== null) {
+            if (scene.bulletTimeManager && !scene.bulletTimeManager.isActive) {
+                scene.bulletTimeManager.forceActivateWithHeight(events.autoBulletTimeApexM);
+                if (GameConfig.debug) {
+                    console.log(`[AutoBT] Activated | Height: ${events.autoBulletTimeApexM.toFixed(0)}m`);
+                }
+            }
+        }
+
+        // Deactivate when falling starts (reached apex)
+        if (events.autoBulletTimeEnd && scene.bulletTimeManager?.isActive) {
+            scene.bulletTimeManager.deactivate();
+            if (GameConfig.debug) {
+                console.log(`[AutoBT] Deactivated - reached apex, falling started`);
+            }
+        }
+    }
+
+    /**
+     * Advance one fixed step; returns the sim events so the scene can react (stats etc.)
+     */
+    update(deltaMs: number, isSpaceDown: boolean): SimStepEvents {
         // dt is now guaranteed to be stable by GameScene's fixed timestep loop
         // No need to clamp here - removing Math.min() improves consistency
         const dt = deltaMs / 1000;
 
-        const justPressed = isSpaceDown && !this.prevSpaceDown;
-        const justReleased = !isSpaceDown && this.prevSpaceDown;
-        this.prevSpaceDown = isSpaceDown;
-
-        this.currentState.update(this, dt, isSpaceDown, justPressed, justReleased);
+        const events = this.sim.step(dt, { hold: isSpaceDown });
+        this.syncPresentationState();
+        this.handleSimEvents(events);
 
-        // Hard clamp: never allow embedding when not airborne
-        // This failsafe ensures player center never goes below ground level
-        if (this.state !== 'AIRBORNE') {
-            const gy = this.getGroundY();
-            if (this.y > gy) this.y = gy;
-        }
+        this.currentState.update(this, dt, events);
 
         // ===== UPDATE TEXT POSITIONS TO FOLLOW SLIME =====
         // Layout order: Player → Combo → Height → BT Icon
@@ -260,6 +287,7 @@ export default class Slime {
         // Feedback text above slime (if visible)
         if (this.feedbackTimer > 0) {
             this.feedbackText.setPosition(this.x, this.y - 100);
+            this.timingText.setPosition(this.x, this.y - 100 + this.feedbackText.height * 0.6);
             this.feedbackTimer -= dt;
 
             // Explosion effect: scale down from 2.0 to 1.0 quickly, then fade
@@ -277,6 +305,7 @@ export default class Slime {
             } else {
                 this.feedbackText.setAlpha(0);
             }
+            this.timingText.setAlpha(this.feedbackText.alpha);
         }
 
         // ===== YELLOW SPARK PARTICLES (DISABLED per user request) =====
@@ -296,25 +325,31 @@ export default class Slime {
 
         // Update health manager
         this.healthManager.update(dt, this.x, this.y);
+
+        return events;
     }
 
-    public showFeedback(rating: 'PERFECT' | 'NORMAL' | 'FAILED') {
+    /**
+     * @param releaseOffsetMs - Release time vs center of the PERFECT window (+ = late), null hides the readout
+     */
+    public showFeedback(rating: 'PERFECT' | 'NORMAL' | 'FAILED', releaseOffsetMs: number | null = null) {
         this.lastLaunchRating = rating;
         this.feedbackTimer = 0.8;  // Shorter duration with explosion effect
         this.feedbackText.setAlpha(1);
         this.feedbackText.setScale(2.0);  // Start big for explosion effect
         this.feedbackText.setPosition(this.x, this.y - 100);
+        this.showTimingOffset(releaseOffsetMs);
 
         if (rating === 'PERFECT') {
-            this.feedbackText.setText('PERFECT!');
+            this.feedbackText.setText(t('feedback.perfect'));
             // User request: Change color to Yellow (like before)
             this.feedbackText.setColor('#ffff00');
 
             // CHARGE BULLET TIME ENERGY
             // Energy = Clamp(holdTime, 0, 5.0)
-            // Use this.holdTime (which tracks hold duration active during fall)
+            // Use sim.holdTime (which tracks hold duration active during fall)
             if (this.scene instanceof GameScene) {
-                const chargeAmount = Phaser.Math.Clamp(this.holdTime, 0, 5.0);
+                const chargeAmount = Phaser.Math.Clamp(this.sim.holdTime, 0, 5.0);
                 // Access manager via public property (we just added it)
                 (this.scene as any).bulletTimeManager?.addEnergy(chargeAmount);
             }
@@ -323,14 +358,14 @@ export default class Slime {
             this.completeChargeEffect();
 
         } else if (rating === 'NORMAL') {
-            this.feedbackText.setText('Normal');
+            this.feedbackText.setText(t('feedback.normal'));
             this.feedbackText.setColor('#ffff00');
 
             // Complete charge effect animation (play remaining frames)
             this.completeChargeEffect();
 
         } else {
-            this.feedbackText.setText('FAILED');
+            this.feedbackText.setText(t('feedback.failed'));
             this.feedbackText.setColor('#ff0000');
 
             // Cancel charge effect animation (hide immediately)
@@ -340,7 +375,7 @@ export default class Slime {
         // Show Combo Text if streak > 1 and Perfect
         if (rating === 'PERFECT' && this.perfectStreak > 1) {
             this.comboTimer = 1.0;
-            this.comboText.setText(`${this.perfectStreak} COMBO!`);
+            this.comboText.setText(t('feedback.combo', { count: this.perfectStreak }));
             this.comboText.setColor('#00ffff'); // Cyan
             this.comboText.setAlpha(1);
             this.comboText.setScale(1.8); // Pop smaller (was 2.5)
@@ -355,7 +390,7 @@ export default class Slime {
 
         if (this.state === 'GROUND_CHARGING') {
             const followTau = (ground.deformFollowTime ?? 0.03) as number;
-            this.groundDeform = this.approach(this.groundDeform, this.currentCompression, dt, followTau);
+            this.groundDeform = this.approach(this.groundDeform, this.sim.currentCompression, dt, followTau);
         } else {
             this.groundDeform = this.approach(this.groundDeform, 0, dt, this.groundRecoverTau);
             if (this.groundDeform < 1e-4) this.groundDeform = 0;
@@ -363,17 +398,11 @@ export default class Slime {
     }
 
     public getGroundY(): number {
-        // groundLevel - radius = bottom of sprite touches ground
-        // + playerYOffset = configurable offset (negative = higher, positive = lower)
-        // + surfaceOffset = dynamic ground deformation at this X position
-        const surfaceOffset = this.ground.getSurfaceOffsetAt(this.x);
-        return this.groundLevel - this.radius + GameConfig.display.playerYOffset + surfaceOffset;
+        return this.sim.getGroundY();
     }
 
     public approach(current: number, target: number, dt: number, tau: number): number {
-        if (tau <= 0) return target;
-        const alpha = 1 - Math.exp(-dt / tau);
-        return current + (target - current) * alpha;
+        return this.sim.approach(current, target, dt, tau);
     }
 
     // ------------------------------------------------------------
@@ -384,7 +413,7 @@ export default class Slime {
 
         if (this.state === 'AIRBORNE') {
             // Fast fall intensity: blend from white to red
-            const p = Math.min(1, this.userAccel / GameConfig.air.maxFastFallAccel);
+            const p = Math.min(1, this.sim.userAccel / GameConfig.air.maxFastFallAccel);
             if (p > 0.1) {
                 const r = 0xff;
                 const g = Math.floor(0xff * (1 - p * 0.7));
@@ -394,20 +423,7 @@ export default class Slime {
                 this.graphics.clearTint();  // Normal color
             }
         } else if (this.state === 'GROUND_CHARGING') {
-            // failure = dark tint
-            if (this.holdLockout) {
-                this.graphics.setTint(0x333333);
-            } else if (this.reachedPeak && this.postPeakHoldTime > ((GameConfig.ground as any).sweetHoldGrace ?? 0.08)) {
-                // late hold = darker
-                this.graphics.setTint(0x666666);
-            } else {
-                const proximity = this.currentCompression / (this.targetCompression + 0.1);
-                if (proximity > 0.9) {
-                    this.graphics.setTint(0xffff00);  // Yellow = ready to launch
-                } else {
-                    this.graphics.clearTint();
-                }
-            }
+            // Charge tint is owned by ChargingState.updateChargeTint (palette-aware)
         } else {
             // GROUNDED_IDLE - normal color
             this.graphics.clearTint();
@@ -420,7 +436,7 @@ export default class Slime {
         let scaleY = baseScale;
 
         if (this.state === 'GROUND_CHARGING' || this.state === 'GROUNDED_IDLE') {
-            const factorRaw = this.currentCompression / 200;
+            const factorRaw = this.sim.currentCompression / 200;
             const factor = Phaser.Math.Clamp(factorRaw, 0, 1.8); // Prevent scaleY from being negative or too small
             scaleX = baseScale * (1 + factor);
             scaleY = baseScale * (1 - factor * 0.5);
@@ -471,6 +487,20 @@ export default class Slime {
         return this.groundDeform;
     }
 
+    private showTimingOffset(releaseOffsetMs: number | null): void {
+        if (releaseOffsetMs === null) {
+            this.timingText.setText('').setAlpha(0);
+            return;
+        }
+
+        const ms = i18n.formatNumber(Math.abs(Math.round(releaseOffsetMs)));
+        const late = releaseOffsetMs >= 0;
+        this.timingText
+            .setText(t(late ? 'feedback.late' : 'feedback.early', { ms }))
+            .setColor(late ? '#ffb347' : '#7fd4ff')
+            .setAlpha(1);
+    }
+
     // Dynamic UI Scaling (9:16 Safe Frame)
     public applyUIScale(safeWidth: number) {
         // Feedback Text: 15% of safe width, max 80px
@@ -483,6 +513,11 @@ export default class Slime {
         this.comboText.setFontSize(comboSize);
         this.comboText.setStroke('#000000', Math.max(3, comboSize * 0.1));
 
+        // Timing readout: 5% of safe width, max 28px
+        const timingSize = Math.min(28, Math.floor(safeWidth * 0.05));
+        this.timingText.setFontSize(timingSize);
+        this.timingText.setStroke('#000000', Math.max(3, timingSize * 0.12));
+
         // Health Manager UI scaling
         this.healthManager.applyUIScale(safeWidth);
     }
@@ -514,6 +549,7 @@ export default class Slime {
         // Hide combo and feedback text
         this.comboText.setAlpha(0);
         this.feedbackText.setAlpha(0);
+        this.timingText.setAlpha(0);
     }
 
     /**
@@ -624,22 +660,41 @@ export default class Slime {
         // Play attack animation with hit callback
         this.playAttackAnimation(direction, onAttackHit);
 
-        // Cancel any existing tween
-        if (this.laneTween) {
-            this.laneTween.stop();
-        }
-
-        // Create tween for smooth movement
-        this.laneTween = this.scene.tweens.add({
-            targets: this,
-            x: this.targetLaneX,
-            duration: GameConfig.lane.tweenDuration,
-            ease: GameConfig.lane.tweenEase,
-        });
+        // Start lane movement (replaces any movement in progress)
+        this.laneMove = {
+            fromX: this.x,
+            elapsed: 0,
+            ease: Phaser.Tweens.Builders.GetEaseFunction(GameConfig.lane.tweenEase),
+        };
 
         return true;
     }
 
+    /**
+     * Advance lane movement and the pending attack hit (called once per fixed step)
+     * Driven by the fixed-step loop instead of Phaser tweens/anim events so replays stay deterministic.
+     * @param dt Real (unscaled) step time in seconds - lane moves are not slowed by bullet time
+     */
+    public updateLaneMotion(dt: number): void {
+        if (this.laneMove) {
+            this.laneMove.elapsed += dt * 1000;
+            const t = Math.min(1, this.laneMove.elapsed / GameConfig.lane.tweenDuration);
+            this.x = this.laneMove.fromX + (this.targetLaneX - this.laneMove.fromX) * this.laneMove.ease(t);
+            if (t >= 1) {
+                this.laneMove = undefined;
+            }
+        }
+
+        if (this.pendingAttackHit) {
+            this.pendingAttackHit.delay -= dt;
+            if (this.pendingAttackHit.delay <= 0) {
+                const { direction, onHit } = this.pendingAttackHit;
+                this.pendingAttackHit = undefined;
+                onHit?.(direction, this.x, this.y);
+            }
+        }
+    }
+
     /**
      * Reset lane switch lock (called when entering AIRBORNE after bounce)
      */
@@ -670,23 +725,20 @@ export default class Slime {
         this.currentAnimation = '';
         this.graphics.play(attackAnim);
 
-        // Trigger hit callback on frame 2 (the impact frame)
-        let hitTriggered = false;
-        const frameHandler = () => {
-            const currentFrame = this.graphics.anims.currentFrame;
-            if (currentFrame && currentFrame.index === 2 && !hitTriggered) {
-                hitTriggered = true;
-                if (onHit) {
-                    onHit(direction, this.x, this.y);
-                }
-            }
-        };
-        this.graphics.on('animationupdate', frameHandler);
+        // Hit callback fires when the animation reaches frame 2 (the impact frame)
+        // Timed by updateLaneMotion() so it lands on the same physics step in replays
+        // A new attack interrupts the previous one - resolve its pending hit right away
+        if (this.pendingAttackHit) {
+            const previous = this.pendingAttackHit;
+            this.pendingAttackHit = undefined;
+            previous.onHit?.(previous.direction, this.x, this.y);
+        }
+        const frameRate = this.scene.anims.get(attackAnim)?.frameRate ?? 24;
+        this.pendingAttackHit = { direction, delay: 1 / frameRate, onHit };
 
         // When attack animation completes, return to jump_rise frame 2
         this.graphics.once('animationcomplete', () => {
             this.isPlayingAttackAnimation = false;
-            this.graphics.off('animationupdate', frameHandler);
 
             // Return to jump_rise frame 2 with correct facing direction
             if (this.facingDirection === -1) {
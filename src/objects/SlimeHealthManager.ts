@@ -1,22 +1,22 @@
 import Phaser from 'phaser';
 import { GameConfig } from '../config';
+import { HealthModel } from '../sim/HealthModel';
+import type { DeathCause } from '../sim/DeathCause';
+import { i18n, t } from '../i18n/I18n';
 
 /**
  * SlimeHealthManager
  * 
- * Manages the health system for the slime character:
- * - Health tracking (starts at 100 HP)
- * - Damage calculation based on fall height and landing judgment
- * - Death detection
+ * Renders the health system for the slime character:
+ * - Health rules live in HealthModel (pure, driven by SlimeSim)
  * - Health bar UI rendering
+ * - Floating damage text
  */
 export class SlimeHealthManager {
     private scene: Phaser.Scene;
 
-    // Health state
-    public currentHealth: number = 100;
-    public maxHealth: number = 100;
-    public isDead: boolean = false;
+    // Health rules (pure, shared with SlimeSim)
+    public readonly model: HealthModel;
 
     // UI elements
     private healthBar!: Phaser.GameObjects.Graphics;
@@ -24,25 +24,37 @@ export class SlimeHealthManager {
     private damageText!: Phaser.GameObjects.Text;
     private damageTextTimer: number = 0;
 
+    // Reduced motion: the damage text stays put (no float / scale / fade)
+    public reducedMotion: boolean = false;
+
     // Health bar visibility (only show when health changes)
     private healthBarVisibleTimer: number = 0;
     private readonly HEALTH_BAR_SHOW_DURATION = 1.5; // seconds
 
-    // Constants
-    private readonly SAFE_ZONE_METERS = 100;
-    private readonly INSTANT_DEATH_METERS = 1000;
-    private readonly PIXELS_PER_METER = GameConfig.display.pixelsPerMeter;
-
     // Health bar dimensions (from config)
     private readonly BAR_WIDTH = GameConfig.display.healthBarWidth ?? 84;
     private readonly BAR_HEIGHT = GameConfig.display.healthBarHeight ?? 12;
     private readonly BAR_OFFSET_Y = GameConfig.display.healthBarOffsetY ?? -60;
 
-    constructor(scene: Phaser.Scene) {
+    constructor(scene: Phaser.Scene, model: HealthModel = new HealthModel()) {
         this.scene = scene;
+        this.model = model;
+        this.model.onDamage = (damage) => this.onModelDamage(damage);
         this.createUI();
     }
 
+    public get currentHealth(): number {
+        return this.model.currentHealth;
+    }
+
+    public get maxHealth(): number {
+        return this.model.maxHealth;
+    }
+
+    public get isDead(): boolean {
+        return this.model.isDead;
+    }
+
     private createUI(): void {
         // Health bar background (border)
         this.healthBarBg = this.scene.add.graphics();
@@ -70,105 +82,28 @@ export class SlimeHealthManager {
      * @param holdLockout - True if player held space too long (missed bounce)
      */
     public onLanding(heightPixels: number, rating: 'PERFECT' | 'NORMAL' | 'FAILED', holdLockout: boolean): void {
-        if (this.isDead) return;
-
-        const heightMeters = heightPixels / this.PIXELS_PER_METER;
-
-        // Check instant death conditions
-        // 1. Missed bounce timing after 100m
-        if (holdLockout && heightMeters > this.SAFE_ZONE_METERS) {
-            this.die('Missed bounce timing!');
-            return;
-        }
-
-        // 2. Perfect judgment never takes damage
-        if (rating === 'PERFECT') {
-            return;
-        }
-
-        // 3. Below 100m safe zone - no damage
-        if (heightMeters <= this.SAFE_ZONE_METERS) {
-            return;
-        }
-
-        // 4. Calculate damage for NORMAL judgment above 100m
-        if (rating === 'NORMAL') {
-            const damage = this.calculateDamage(heightMeters);
-            this.takeDamage(damage);
-        }
-
-        // FAILED judgment is already punished by the existing streak system
-        // No additional health damage needed
+        this.model.onLanding(heightPixels, rating, holdLockout);
     }
 
     /**
-     * Calculate damage using exponential curve
-     * 
-     * Damage range:
-     * - 100m: 0 damage (safe zone)
-     * - 300m: ~22 damage
-     * - 500m: ~44 damage  
-     * - 700m: ~67 damage
-     * - 1000m: 100 damage (instant death)
-     * 
-     * Uses linear interpolation for predictable damage scaling.
+     * Apply damage to the slime
      */
-    private calculateDamage(heightMeters: number): number {
-        // Clamp to safe zone
-        if (heightMeters <= this.SAFE_ZONE_METERS) {
-            return 0;
-        }
-
-        // Instant death above 1000m
-        if (heightMeters >= this.INSTANT_DEATH_METERS) {
-            return this.currentHealth; // Kill instantly
-        }
-
-        // Linear damage scaling from safe zone to instant death
-        // At 100m: 0 damage, at 1000m: 100 damage
-        const normalizedHeight = heightMeters - this.SAFE_ZONE_METERS; // 0 at 100m
-        const maxNormalizedHeight = this.INSTANT_DEATH_METERS - this.SAFE_ZONE_METERS; // 900
-
-        // Linear interpolation: damage increases proportionally with height
-        const rawDamage = 100 * (normalizedHeight / maxNormalizedHeight);
-
-        // Clamp to valid range
-        return Math.min(100, Math.max(0, rawDamage));
+    public takeDamage(damage: number, cause?: DeathCause): void {
+        this.model.takeDamage(damage, cause);
     }
 
     /**
-     * Apply damage to the slime
+     * Damage feedback (fired by the model whenever health is reduced)
      */
-    /**
-     * Apply damage to the slime
-     */
-    public takeDamage(damage: number): void {
-        if (this.isDead || damage <= 0) return;
-
-        this.currentHealth = Math.max(0, this.currentHealth - damage);
-
+    private onModelDamage(damage: number): void {
         // Show damage text
         this.showDamageText(Math.round(damage));
 
         // Show health bar temporarily
         this.healthBarVisibleTimer = this.HEALTH_BAR_SHOW_DURATION;
 
-        // Check for death
-        if (this.currentHealth <= 0) {
-            this.die('Health depleted!');
-        }
-    }
-
-    /**
-     * Kill the slime
-     */
-    private die(reason: string): void {
-        this.isDead = true;
-        this.currentHealth = 0;
-
-        if (GameConfig.debug) {
-            console.log(`[DEATH] ${reason}`);
-        }
+        // Notify scene (for sound)
+        this.scene.events.emit('slime-damage', damage);
     }
 
     /**
@@ -176,7 +111,7 @@ export class SlimeHealthManager {
      */
     private showDamageText(damage: number): void {
         this.damageTextTimer = 1.0;
-        this.damageText.setText(`-${damage}`);
+        this.damageText.setText(t('feedback.damage', { damage: i18n.formatNumber(damage) }));
         this.damageText.setAlpha(1);
         this.damageText.setScale(1.5);
     }
@@ -192,6 +127,13 @@ export class SlimeHealthManager {
         if (this.damageTextTimer > 0) {
             this.damageTextTimer -= dt;
 
+            if (this.reducedMotion) {
+                this.damageText.setPosition(slimeX + 60, slimeY + this.BAR_OFFSET_Y);
+                this.damageText.setAlpha(1);
+                this.damageText.setScale(1);
+                return;
+            }
+
             const t = this.damageTextTimer / 1.0;
             // Float upward and fade
             const offsetY = (1 - t) * 30; // Float up 30px
@@ -259,8 +201,7 @@ export class SlimeHealthManager {
      * Reset health (for restart)
      */
     public reset(): void {
-        this.currentHealth = this.maxHealth;
-        this.isDead = false;
+        this.model.reset();
         this.damageTextTimer = 0;
         this.damageText.setAlpha(0);
     }
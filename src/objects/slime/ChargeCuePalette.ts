@@ -0,0 +1,35 @@
+/**
+ * ChargeCuePalette - 蓄力时机提示的配色
+ *
+ * 标准配色用黄/绿/红；色盲模式使用 Okabe-Ito 蓝/橙配色，并用亮度差和硬闪烁 (而不是色相变化) 区分黄区，
+ * 时机圆环在黄区内改为虚线图案，红绿色盲也能分辨。
+ */
+export interface ChargeCuePalette {
+    charging: number;           // Tint at full brightening before the window
+    window: [number, number];   // Yellow zone tint, alternated by the pulse
+    hardBlink: boolean;         // Square-wave blink instead of a smooth pulse
+    lockout: number;            // Held too long
+    ring: number;               // Closing timing ring
+    ringWindow: number;         // Ring while the window is open
+    dashedWindowRing: boolean;  // Pattern cue in addition to color
+}
+
+export const STANDARD_CUE_PALETTE: ChargeCuePalette = {
+    charging: 0xcdffcd,
+    window: [0xffff00, 0xb3ff64],
+    hardBlink: false,
+    lockout: 0xff4444,
+    ring: 0xffffff,
+    ringWindow: 0xffff00,
+    dashedWindowRing: false,
+};
+
+export const COLORBLIND_CUE_PALETTE: ChargeCuePalette = {
+    charging: 0xb8dcf5,
+    window: [0xffffff, 0x56b4e9],   // White / sky blue
+    hardBlink: true,
+    lockout: 0x0072b2,              // Dark blue
+    ring: 0xe69f00,                 // Orange
+    ringWindow: 0xffffff,
+    dashedWindowRing: true,
+};
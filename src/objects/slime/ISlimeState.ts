@@ -1,8 +1,12 @@
-
 import type Slime from '../Slime';
+import type { SimStepEvents } from '../../sim/SlimeSim';
 
+/**
+ * Presentation state - physics lives in SlimeSim, states only drive visuals
+ * (tint, shake, effects) from the sim state and the events of the last step.
+ */
 export interface ISlimeState {
     enter(slime: Slime): void;
-    update(slime: Slime, dt: number, isSpaceDown: boolean, justPressed: boolean, justReleased: boolean): void;
+    update(slime: Slime, dt: number, events: SimStepEvents): void;
     exit(slime: Slime): void;
 }
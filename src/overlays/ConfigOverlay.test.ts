@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { GameConfig } from '../config';
+import { applyConfigOverlays, getBaseConfig, mergeConfigOverlays } from './ConfigOverlay';
+import type { ConfigOverlay } from './ConfigOverlay';
+import { DIFFICULTY_IDS, getDifficultyOverlay } from './DifficultyPresets';
+
+/** Overlay as it would arrive from a replay link */
+function fromJson(json: string): ConfigOverlay {
+    return JSON.parse(json);
+}
+
+afterEach(() => {
+    applyConfigOverlays();
+});
+
+describe('applyConfigOverlays', () => {
+    it('resets to the factory values before merging, later overlays win', () => {
+        applyConfigOverlays({ health: { safeZoneMeters: 150 } });
+        expect(GameConfig.health.safeZoneMeters).toBe(150);
+
+        // A second call starts from the factory config again
+        applyConfigOverlays({ health: { instantDeathMeters: 800 } });
+        expect(GameConfig.health.safeZoneMeters).toBe(getBaseConfig().health.safeZoneMeters);
+        expect(GameConfig.health.instantDeathMeters).toBe(800);
+
+        applyConfigOverlays({ health: { safeZoneMeters: 150 } }, { health: { safeZoneMeters: 75 } });
+        expect(GameConfig.health.safeZoneMeters).toBe(75);
+        expect(GameConfig.health.fallDamageMax).toBe(getBaseConfig().health.fallDamageMax);
+    });
+
+    it('replaces arrays instead of merging them', () => {
+        applyConfigOverlays({ monster: { director: { difficultyCurve: [[0, 0.5]] } } });
+        expect(GameConfig.monster.director.difficultyCurve).toEqual([[0, 0.5]]);
+    });
+
+    it('does not write through __proto__, constructor or prototype', () => {
+        applyConfigOverlays(fromJson('{"__proto__":{"polluted":true},"health":{"__proto__":{"polluted":true},"constructor":{"prototype":{"polluted":true}}}}'));
+
+        expect(({} as any).polluted).toBeUndefined();
+        expect((Object.prototype as any).polluted).toBeUndefined();
+        expect((GameConfig.health as any).polluted).toBeUndefined();
+    });
+
+    it('skips unknown keys and values of the wrong kind', () => {
+        applyConfigOverlays(fromJson('{"ground":5,"health":{"safeZoneMeters":"150","instantDeathMeters":{}},"madeUp":{"x":1},"monster":{"director":{"difficultyCurve":3}}}'));
+
+        expect(GameConfig.ground).toEqual(getBaseConfig().ground);
+        expect(GameConfig.health).toEqual(getBaseConfig().health);
+        expect((GameConfig as any).madeUp).toBeUndefined();
+        expect(GameConfig.monster.director.difficultyCurve).toEqual(getBaseConfig().monster.director.difficultyCurve);
+    });
+});
+
+describe('mergeConfigOverlays', () => {
+    it('keeps every field of the difficulty presets', () => {
+        const custom = { timingScale: 1.5, monsterScale: 0.5, damageScale: 2 };
+        for (const id of DIFFICULTY_IDS) {
+            const overlay = getDifficultyOverlay(id, custom);
+            expect(mergeConfigOverlays(overlay)).toEqual(overlay);
+        }
+    });
+});
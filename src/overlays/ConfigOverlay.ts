@@ -0,0 +1,95 @@
+import { GameConfig } from '../config';
+
+/**
+ * ConfigOverlay - GameConfig 的局部深度覆盖
+ *
+ * GameConfig 仍是唯一的全局配置对象 (各模块直接读取)；覆盖层只写出要改的字段，
+ * 开局前按顺序叠加到出厂配置上：难度预设、之后的变异规则 (mutators)、A/B 实验都用同一机制。
+ * 数组整体替换 (例如 difficultyCurve)，对象逐字段合并。
+ */
+
+export type DeepPartial<T> = T extends readonly unknown[]
+    ? T
+    : T extends object
+        ? { [K in keyof T]?: DeepPartial<T[K]> }
+        : T;
+
+export type ConfigOverlay = DeepPartial<typeof GameConfig>;
+
+// Factory values, captured before any overlay is applied
+const BASE_CONFIG: typeof GameConfig = structuredClone(GameConfig);
+
+/**
+ * Factory value of the config (read-only, unaffected by overlays)
+ */
+export function getBaseConfig(): Readonly<typeof GameConfig> {
+    return BASE_CONFIG;
+}
+
+/**
+ * Reset GameConfig to the factory values, then apply the overlays in order (later ones win)
+ * Call before creating the run's objects - some read the config at construction.
+ * Overlays may come from outside (replay links), so only known keys of the right kind are merged.
+ */
+export function applyConfigOverlays(...overlays: ConfigOverlay[]): void {
+    mergeInto(GameConfig, structuredClone(BASE_CONFIG), BASE_CONFIG);
+    for (const overlay of overlays) {
+        mergeInto(GameConfig, overlay, BASE_CONFIG);
+    }
+}
+
+/**
+ * Combine overlays into one (later ones win), e.g. to store it in a replay
+ */
+export function mergeConfigOverlays(...overlays: ConfigOverlay[]): ConfigOverlay {
+    const merged: Record<string, unknown> = {};
+    for (const overlay of overlays) {
+        mergeInto(merged, overlay, BASE_CONFIG);
+    }
+    return merged as ConfigOverlay;
+}
+
+// Never merged, whatever the shape says (prototype pollution through a crafted overlay)
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Same kind as the factory value: object / array / leaf of the same type (finite numbers only)
+ */
+function matchesShape(value: unknown, shape: unknown): boolean {
+    if (isPlainObject(shape)) return isPlainObject(value);
+    if (Array.isArray(shape)) return Array.isArray(value);
+    if (typeof shape === 'number') return typeof value === 'number' && Number.isFinite(value);
+    return typeof value === typeof shape;
+}
+
+/**
+ * Merge source into target, following the factory config shape (unknown keys and mismatched kinds are skipped)
+ */
+function mergeInto(target: Record<string, any>, source: unknown, shape: Record<string, unknown>): void {
+    if (!isPlainObject(source)) return;
+
+    for (const [key, value] of Object.entries(source)) {
+        if (value === undefined || UNSAFE_KEYS.has(key)) continue;
+
+        const shapeValue = Object.hasOwn(shape, key) ? shape[key] : undefined;
+        if (shapeValue === undefined || !matchesShape(value, shapeValue)) {
+            if (GameConfig.debug) {
+                console.warn(`[ConfigOverlay] Ignoring "${key}": not a config field of that kind`);
+            }
+            continue;
+        }
+
+        if (isPlainObject(shapeValue)) {
+            if (!Object.hasOwn(target, key) || !isPlainObject(target[key])) {
+                target[key] = {};
+            }
+            mergeInto(target[key], value, shapeValue);
+        } else {
+            target[key] = Array.isArray(value) ? structuredClone(value) : value;
+        }
+    }
+}
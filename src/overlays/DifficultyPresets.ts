@@ -0,0 +1,119 @@
+import { getBaseConfig } from './ConfigOverlay';
+import type { ConfigOverlay } from './ConfigOverlay';
+
+/**
+ * DifficultyPresets - 难度预设 (简单 / 普通 / 困难 / 自定义)
+ *
+ * 每个预设就是一个 ConfigOverlay：地面时机窗口、怪物导演、子弹时间曲线、坠落伤害。
+ * 普通 = 出厂配置 (空覆盖)。自定义由设置里的三个倍率在出厂值上换算得出。
+ */
+
+export const DIFFICULTY_IDS = ['easy', 'normal', 'hard', 'custom'] as const;
+export type DifficultyId = typeof DIFFICULTY_IDS[number];
+
+/** Multipliers behind the custom preset (1 = normal) */
+export interface CustomDifficulty {
+    timingScale: number;    // Timing windows (higher = easier)
+    monsterScale: number;   // Monster count and speed (higher = harder)
+    damageScale: number;    // Fall damage (higher = harder)
+}
+
+const PRESETS: Record<Exclude<DifficultyId, 'custom'>, ConfigOverlay> = {
+    easy: {
+        ground: {
+            yellowDuration0: 0.2,
+            yellowDurationMin: 0.05,
+            sweetHoldGrace0: 0.13,
+            sweetHoldGraceMin: 0.035,
+            failHoldTime0: 0.16,
+            failHoldTimeMin: 0.05,
+        },
+        monster: {
+            director: {
+                baseCount: 3,
+                maxCount: 8,
+                countGrowthFactor: 1.8,
+                maxSpeedMultiplier: 2.2,
+            },
+        },
+        bulletTime: {
+            timeScaleMax: 0.36,
+            timeScaleMin: 0.16,
+            maxExtraDuration: 25.0,
+        },
+        health: {
+            safeZoneMeters: 150,
+            instantDeathMeters: 1500,
+        },
+    },
+    normal: {},
+    hard: {
+        ground: {
+            yellowDuration0: 0.12,
+            yellowDurationMin: 0.025,
+            sweetHoldGrace0: 0.08,
+            sweetHoldGraceMin: 0.015,
+            failHoldTime0: 0.1,
+            failHoldTimeMin: 0.025,
+        },
+        monster: {
+            director: {
+                baseCount: 5,
+                maxCount: 14,
+                countGrowthFactor: 3.0,
+                maxSpeedMultiplier: 3.5,
+            },
+        },
+        bulletTime: {
+            timeScaleMax: 0.48,
+            timeScaleMin: 0.25,
+            maxExtraDuration: 15.0,
+        },
+        health: {
+            safeZoneMeters: 75,
+            instantDeathMeters: 800,
+        },
+    },
+};
+
+/**
+ * Overlay of a preset (custom is derived from the factory values)
+ */
+export function getDifficultyOverlay(id: DifficultyId, custom: CustomDifficulty): ConfigOverlay {
+    return id === 'custom' ? buildCustomOverlay(custom) : PRESETS[id];
+}
+
+export function isDifficultyId(value: unknown): value is DifficultyId {
+    return typeof value === 'string' && (DIFFICULTY_IDS as readonly string[]).includes(value);
+}
+
+function buildCustomOverlay(custom: CustomDifficulty): ConfigOverlay {
+    const base = getBaseConfig();
+    const { ground, bulletTime } = base;
+    const director = base.monster.director;
+
+    return {
+        ground: {
+            yellowDuration0: ground.yellowDuration0 * custom.timingScale,
+            yellowDurationMin: ground.yellowDurationMin * custom.timingScale,
+            sweetHoldGrace0: ground.sweetHoldGrace0 * custom.timingScale,
+            sweetHoldGraceMin: ground.sweetHoldGraceMin * custom.timingScale,
+            failHoldTime0: ground.failHoldTime0 * custom.timingScale,
+            failHoldTimeMin: ground.failHoldTimeMin * custom.timingScale,
+        },
+        monster: {
+            director: {
+                baseCount: Math.max(1, Math.round(director.baseCount * custom.monsterScale)),
+                maxCount: Math.max(1, Math.round(director.maxCount * custom.monsterScale)),
+                maxSpeedMultiplier: Math.max(1, director.maxSpeedMultiplier * custom.monsterScale),
+            },
+        },
+        // Harder custom runs also get a shorter slow-motion budget
+        bulletTime: {
+            maxExtraDuration: bulletTime.maxExtraDuration / Math.max(0.25, custom.monsterScale),
+        },
+        health: {
+            fallDamageMax: base.health.fallDamageMax * custom.damageScale,
+        },
+    };
+}
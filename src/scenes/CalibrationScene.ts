@@ -0,0 +1,242 @@
+import Phaser from 'phaser';
+import { profileStore } from '../storage/ProfileStore';
+import { audioEngine } from '../audio/AudioEngine';
+import { i18n, t } from '../i18n/I18n';
+import { LatencyCalibrator, CALIBRATION_BEAT_INTERVAL_MS, CALIBRATION_SAMPLE_BEATS } from '../input/LatencyCalibrator';
+import type { CalibrationResult } from '../input/LatencyCalibrator';
+
+type CalibrationPhase = 'ready' | 'running' | 'done';
+
+const LEAD_IN_MS = 1200;            // Silence before the first beat
+const AUDIO_LOOKAHEAD_MS = 150;     // Clicks are scheduled this far ahead on the AudioContext clock
+const FLASH_MS = 120;               // Flash fade time after each beat
+
+/**
+ * CalibrationScene - 输入延迟校准向导 (从设置界面打开)
+ *
+ * 节拍器 + 闪光，玩家跟着节拍点击屏幕或按 SPACE，测出系统性偏差后保存到玩家设置。
+ * 设置存在本机 localStorage，所以每台设备 (触屏、蓝牙键盘) 各自校准。
+ * 新的偏差从下一局开始生效 (同一局内固定，回放才能重现判定)。
+ * Launched with { returnTo } - the scene that was paused to open it.
+ */
+export default class CalibrationScene extends Phaser.Scene {
+    private returnTo: string = 'SettingsScene';
+    private phase: CalibrationPhase = 'ready';
+    private calibrator: LatencyCalibrator | null = null;
+    private result: CalibrationResult | null = null;
+    private scheduledBeats: number = 0;
+    private lastTapOffset: number | null = null;
+
+    private flash!: Phaser.GameObjects.Arc;
+    private statusText!: Phaser.GameObjects.Text;
+    private resultText!: Phaser.GameObjects.Text;
+    private startButton!: Phaser.GameObjects.Text;
+    private saveButton!: Phaser.GameObjects.Text;
+
+    constructor() {
+        super('CalibrationScene');
+    }
+
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'SettingsScene';
+    }
+
+    create() {
+        const { width, height } = this.scale;
+        this.phase = 'ready';
+        this.calibrator = null;
+        this.result = null;
+        this.lastTapOffset = null;
+
+        // Bullet time may have been active when the game was paused
+        audioEngine.setTimeScale(1);
+
+        this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.92);
+
+        const title = this.add.text(width / 2, height * 0.08, '', {
+            fontSize: `${Math.max(28, Math.floor(width * 0.075))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6
+        }).setOrigin(0.5);
+        i18n.bind(title, () => t('calibration.title'));
+
+        const instructions = this.add.text(width / 2, height * 0.18, '', {
+            fontSize: `${Math.max(16, Math.floor(width * 0.04))}px`,
+            fontFamily: 'Arial',
+            color: '#ccccdd',
+            align: 'center',
+            wordWrap: { width: width * 0.85 }
+        }).setOrigin(0.5, 0);
+        i18n.bind(instructions, () => t('calibration.instructions'));
+
+        this.flash = this.add.circle(width / 2, height * 0.45, Math.min(width, height) * 0.12, 0xffff00)
+            .setAlpha(0.15);
+
+        this.statusText = this.add.text(width / 2, height * 0.6, '', {
+            fontSize: `${Math.max(18, Math.floor(width * 0.045))}px`,
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            align: 'center'
+        }).setOrigin(0.5);
+
+        this.resultText = this.add.text(width / 2, height * 0.67, '', {
+            fontSize: `${Math.max(20, Math.floor(width * 0.05))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffff00',
+            align: 'center'
+        }).setOrigin(0.5);
+
+        this.startButton = this.createButton(width / 2, height * 0.76, () => this.begin());
+        this.saveButton = this.createButton(width / 2, height * 0.83, () => this.save()).setVisible(false);
+        const backButton = this.createButton(width / 2, height * 0.91, () => this.close());
+        i18n.bind(this.startButton, () => t(this.phase === 'done' ? 'calibration.retry' : 'calibration.start'));
+        i18n.bind(this.saveButton, () => t('calibration.save'));
+        i18n.bind(backButton, () => t('button.back'));
+
+        // Taps: native event timestamps (same clock as performance.now(), independent of frame timing)
+        this.input.on('pointerdown', (pointer: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[]) => {
+            if (currentlyOver.length > 0) return;
+            this.tap(pointer.event?.timeStamp ?? performance.now());
+        });
+        this.input.keyboard?.on('keydown-SPACE', (event: KeyboardEvent) => this.tap(event.timeStamp));
+        this.input.keyboard?.on('keydown-ESC', () => this.close());
+
+        this.refreshTexts();
+        i18n.bind(this.statusText, () => this.describeStatus());
+    }
+
+    update() {
+        const calibrator = this.calibrator;
+        if (this.phase !== 'running' || !calibrator) return;
+
+        const now = performance.now();
+        this.scheduleClicks(calibrator, now);
+
+        // Flash fades out after each beat
+        const beat = Math.floor((now - calibrator.startTime) / CALIBRATION_BEAT_INTERVAL_MS);
+        const sinceBeat = beat >= 0 && beat < calibrator.beatCount ? now - calibrator.beatTime(beat) : Infinity;
+        this.flash.setAlpha(sinceBeat < FLASH_MS ? 1 - 0.85 * (sinceBeat / FLASH_MS) : 0.15);
+
+        if (calibrator.isFinished(now)) {
+            this.finish(calibrator);
+        }
+        this.statusText.setText(this.describeStatus());
+    }
+
+    private begin() {
+        this.phase = 'running';
+        this.result = null;
+        this.lastTapOffset = null;
+        this.calibrator = new LatencyCalibrator(performance.now() + LEAD_IN_MS);
+        this.scheduledBeats = 0;
+        this.startButton.setVisible(false);
+        this.saveButton.setVisible(false);
+        this.refreshTexts();
+    }
+
+    /**
+     * Schedule metronome clicks on the audio clock, early by the output latency
+     * so they are heard together with the flash
+     */
+    private scheduleClicks(calibrator: LatencyCalibrator, now: number) {
+        const ctx = audioEngine.ctx;
+        if (!ctx) return;
+
+        const outputLatency = (ctx.outputLatency || 0) + (ctx.baseLatency || 0);
+        while (this.scheduledBeats < calibrator.beatCount && calibrator.beatTime(this.scheduledBeats) < now + AUDIO_LOOKAHEAD_MS) {
+            const at = ctx.currentTime + (calibrator.beatTime(this.scheduledBeats) - now) / 1000 - outputLatency;
+            const accent = this.scheduledBeats % 4 === 0;
+            audioEngine.playTone({ type: 'square', freq: accent ? 1320 : 880, duration: 0.05, gain: 0.2 }, Math.max(ctx.currentTime, at));
+            this.scheduledBeats++;
+        }
+    }
+
+    private tap(time: number) {
+        if (this.phase !== 'running' || !this.calibrator) return;
+
+        const offset = this.calibrator.recordTap(time);
+        if (offset !== null) {
+            this.lastTapOffset = offset;
+        }
+    }
+
+    private finish(calibrator: LatencyCalibrator) {
+        this.phase = 'done';
+        this.result = calibrator.getResult();
+        this.flash.setAlpha(0.15);
+        this.startButton.setVisible(true);
+        this.saveButton.setVisible(this.result !== null);
+        this.refreshTexts();
+    }
+
+    private save() {
+        if (!this.result) return;
+        profileStore.updateSettings({ inputOffsetMs: this.result.offsetMs });
+        this.close();
+    }
+
+    private close() {
+        this.scene.resume(this.returnTo);
+        this.scene.stop();
+    }
+
+    private refreshTexts() {
+        this.startButton.setText(t(this.phase === 'done' ? 'calibration.retry' : 'calibration.start'));
+        this.statusText.setText(this.describeStatus());
+
+        if (this.phase !== 'done') {
+            this.resultText.setText('');
+        } else if (this.result) {
+            this.resultText.setText(t('calibration.result', {
+                offset: formatSignedMs(this.result.offsetMs),
+                spread: i18n.formatNumber(this.result.spreadMs),
+            }));
+        } else {
+            this.resultText.setText(t('calibration.notEnoughTaps'));
+        }
+    }
+
+    private describeStatus(): string {
+        const calibrator = this.calibrator;
+        if (this.phase === 'ready' || !calibrator) {
+            return t('calibration.current', { offset: formatSignedMs(profileStore.profile.settings.inputOffsetMs) });
+        }
+
+        const lines = [t('calibration.progress', {
+            count: i18n.formatNumber(calibrator.sampleCount),
+            total: i18n.formatNumber(CALIBRATION_SAMPLE_BEATS),
+        })];
+        if (this.lastTapOffset !== null) {
+            lines.push(formatSignedMs(this.lastTapOffset));
+        }
+        return lines.join('\n');
+    }
+
+    private createButton(x: number, y: number, onClick: () => void): Phaser.GameObjects.Text {
+        const button = this.add.text(x, y, '', {
+            fontSize: `${Math.max(22, Math.floor(this.scale.width * 0.06))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#66ccff',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(0.5).setInteractive({ useHandCursor: true });
+        button.on('pointerover', () => button.setScale(1.1));
+        button.on('pointerout', () => button.setScale(1.0));
+        button.on('pointerdown', onClick);
+        return button;
+    }
+}
+
+/**
+ * "+42ms" / "-8ms" / "0ms"
+ */
+function formatSignedMs(ms: number): string {
+    const rounded = Math.round(ms);
+    const sign = rounded > 0 ? '+' : rounded < 0 ? '-' : '';
+    return t('calibration.ms', { value: sign + i18n.formatNumber(Math.abs(rounded)) });
+}
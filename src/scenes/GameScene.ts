@@ -6,9 +6,45 @@ import { CameraShakeRig } from './CameraShakeRig';
 import SkyGradientLUT from '../objects/SkyGradientLUT';
 import { GestureManager } from '../input/GestureManager';
 import { MonsterManager } from '../objects/MonsterManager';
+import { ProjectileManager } from '../objects/ProjectileManager';
+import { monsterRegistry, getMonsterAnimKey, getMonsterFrameKey, MONSTER_MANIFEST_KEY, MONSTER_MANIFEST_URL } from '../objects/MonsterRegistry';
+import type { MonsterManifest } from '../objects/MonsterRegistry';
 import { BulletTimeManager } from '../managers/BulletTimeManager';
+import { GhostRunner, GhostTrackRecorder } from '../objects/GhostRunner';
+import { profileStore, getShakeScale, getAssistOptions, getDifficulty, getCustomDifficulty } from '../storage/ProfileStore';
+import { applyAssist } from '../sim/Assist';
+import { applyConfigOverlays } from '../overlays/ConfigOverlay';
+import { DIFFICULTY_IDS, getDifficultyOverlay } from '../overlays/DifficultyPresets';
+import type { DifficultyId } from '../overlays/DifficultyPresets';
+import type { ProfileSettings } from '../storage/ProfileStore';
+import { RunStatsTracker, summarizeReleaseTiming } from '../sim/RunStats';
+import type { RunStats } from '../sim/RunStats';
+import { DeathCause } from '../sim/DeathCause';
+import { i18n, t } from '../i18n/I18n';
+import type { TranslateParams } from '../i18n/I18n';
+import { audioEngine } from '../audio/AudioEngine';
+import { SoundEffects } from '../audio/SoundEffects';
+import { AdaptiveMusic } from '../audio/AdaptiveMusic';
+import { STANDARD_CUE_PALETTE, COLORBLIND_CUE_PALETTE } from '../objects/slime/ChargeCuePalette';
+import type { StringKey } from '../i18n/strings';
+import { ScrollPanel } from '../objects/ScrollPanel';
+import { NameEntryPrompt } from '../objects/NameEntryPrompt';
+import { getLeaderboardRank, sanitizePlayerName } from '../storage/Leaderboard';
+import type { LeaderboardEntry } from '../storage/Leaderboard';
+import { SIM_FIXED_DT } from '../sim/SlimeSim';
+import { SeededRandom } from '../sim/SeededRandom';
+import { ReplayRecorder, ReplayPlayer, encodeReplay, decodeReplay } from '../sim/Replay';
+import type { Replay, ReplayStepInput } from '../sim/Replay';
+import { PracticeDrill, PRACTICE_DROP_HEIGHTS_M } from '../sim/PracticeDrill';
+import { PracticeHud } from '../objects/PracticeHud';
 // BulletTimeUI removed - bullet time is now automatic
 
+/** Scene data for scene.restart() */
+interface GameSceneData {
+    replay?: Replay;
+    practiceDropM?: number;     // Practice drop trainer height (m)
+}
+
 export default class GameScene extends Phaser.Scene {
     private slime!: Slime;
     private ground!: Ground;
@@ -28,7 +64,7 @@ export default class GameScene extends Phaser.Scene {
 
     // Fixed timestep physics
     private accumulator: number = 0;
-    private readonly FIXED_DT = 1 / 120;  // 120 Hz physics
+    private readonly FIXED_DT = SIM_FIXED_DT;  // 120 Hz physics (shared with headless sim)
     private readonly MAX_FRAME_DT = 0.25;  // Prevent explosion on tab switch
     private readonly MAX_STEPS_PER_FRAME = 8;  // Prevent spiral of death
 
@@ -38,9 +74,18 @@ export default class GameScene extends Phaser.Scene {
     // Start screen elements
     private startOverlay!: Phaser.GameObjects.Container;
     private startButton!: Phaser.GameObjects.Text;
+    private historyButton!: Phaser.GameObjects.Text;
+    private leaderboardButton!: Phaser.GameObjects.Text;
+    private settingsButton!: Phaser.GameObjects.Text;
+    private practiceButton!: Phaser.GameObjects.Text;
+    private difficultyButton!: Phaser.GameObjects.Text;
+
+    // Player settings applied live (see applySettings)
+    private shakeScale: number = 1;
 
     // Milestone tracking
     private recordHeight: number = 0;  // All-time record in pixels
+    private runBestHeight: number = 0;  // This run's best in pixels
     private milestoneGraphics!: Phaser.GameObjects.Graphics;
     private milestoneText!: Phaser.GameObjects.Text;
     private pixelsPerMeter: number = 50;
@@ -60,11 +105,52 @@ export default class GameScene extends Phaser.Scene {
 
     // Monster System (怪物系统)
     private monsterManager!: MonsterManager;
+    private projectileManager!: ProjectileManager;
 
     // Bullet Time System
     private bulletTimeManager!: BulletTimeManager;
     // bulletTimeUI removed - bullet time is now automatic
 
+    // Seeded RNG (same seed + same inputs = same monster layout)
+    public runSeed: number = 0;
+    private rng!: SeededRandom;
+
+    // Replay (录制 / 回放): live runs are recorded per fixed step, playback feeds them back
+    private playbackReplay: Replay | null = null;
+    private replayRecorder?: ReplayRecorder;
+    private replayPlayer?: ReplayPlayer;
+    private lastReplay?: Replay;
+    private pendingSwipe: -1 | 0 | 1 = 0;  // Swipe waiting for the next physics step
+    private simStep: number = 0;            // Fixed steps simulated since the run started
+
+    // Ghost of the best run (幽灵): recorded per fixed step, replayed step-aligned
+    private ghostRecorder?: GhostTrackRecorder;
+    private ghostRunner?: GhostRunner;
+
+    // End-of-run statistics
+    private runStats!: RunStatsTracker;
+
+    // Sound effects (synthesized, see AudioEngine)
+    private sfx: SoundEffects = new SoundEffects(audioEngine);
+    private music!: AdaptiveMusic;
+
+    // Yellow zone audio countdown (timingTick setting)
+    private timingTickEnabled: boolean = false;
+    private chargeTickIndex: number = 0;
+    private readonly CHARGE_TICKS = 4;      // Ticks before the yellow zone chime
+
+    // Practice drop trainer (练习模式): no growth, no death, no monsters
+    private practiceDropM: number | null = null;
+    private practiceDrill?: PracticeDrill;
+    private practiceHud?: PracticeHud;
+
+    // Pause (暂停): freezes the fixed-step loop, tweens and sprite animations
+    private isPaused: boolean = false;
+    private pauseStartTime: number = 0;
+    private pauseButton!: Phaser.GameObjects.Text;
+    private pauseMenu?: Phaser.GameObjects.Container;
+    private resumeCountdownText?: Phaser.GameObjects.Text;
+
     constructor() {
         super('GameScene');
     }
@@ -121,10 +207,20 @@ export default class GameScene extends Phaser.Scene {
             this.load.image(`attack_left_${i}`, `assets/Human Attack State/LEFT/frame_${i}.png`);
         }
 
-        // Load Monster A01 animation frames (3 frames each direction)
-        for (let i = 1; i <= 3; i++) {
-            this.load.image(`monster_a01_left_${i}`, `assets/Monsters/Monster A01/left_frame_${i}.png`);
-            this.load.image(`monster_a01_right_${i}`, `assets/Monsters/Monster A01/right_frame_${i}.png`);
+        // Monster types come from the manifest: its frames are queued once it has loaded
+        // (only on the first preload - the registry and textures survive scene restarts)
+        if (!monsterRegistry.isLoaded) {
+            this.load.json(MONSTER_MANIFEST_KEY, MONSTER_MANIFEST_URL);
+            this.load.once(`filecomplete-json-${MONSTER_MANIFEST_KEY}`, (_key: string, _type: string, manifest: MonsterManifest) => {
+                monsterRegistry.load(manifest);
+                for (const definition of monsterRegistry.all()) {
+                    for (const facing of ['left', 'right'] as const) {
+                        definition.frames[facing].forEach((path, i) => {
+                            this.load.image(getMonsterFrameKey(definition, facing, i), path);
+                        });
+                    }
+                }
+            });
         }
 
         // Load Bullet Time icon
@@ -137,6 +233,11 @@ export default class GameScene extends Phaser.Scene {
         }
     }
 
+    init(data: GameSceneData) {
+        this.practiceDropM = data?.practiceDropM ?? null;
+        this.playbackReplay = data?.replay ?? (this.practiceDropM === null ? this.consumeUrlReplay() : null);
+    }
+
     create() {
         const { width, height } = this.scale;
         const groundY = height * 0.8;
@@ -147,9 +248,42 @@ export default class GameScene extends Phaser.Scene {
         this.gameStarted = false;
         this.isSpaceDown = false;
         this.pointerDownCount = 0;
-        this.recordHeight = 0;
+        this.recordHeight = profileStore.profile.bestHeightM * this.pixelsPerMeter;
+        this.runBestHeight = 0;
         this.accumulator = 0;
         this.isCameraTransitioning = false;
+        this.pendingSwipe = 0;
+        this.lastReplay = undefined;
+        this.simStep = 0;
+        this.isPaused = false;
+        this.pauseMenu = undefined;
+        this.resumeCountdownText = undefined;
+
+        // Difficulty preset: config overlay applied before anything below reads GameConfig
+        // (playback uses the recorded overlay, so old replays keep their original tuning)
+        const settings = profileStore.profile.settings;
+        const difficulty: DifficultyId = this.playbackReplay ? this.playbackReplay.difficulty ?? 'normal' : getDifficulty(settings);
+        const configOverlay = this.playbackReplay
+            ? this.playbackReplay.configOverlay ?? {}
+            : getDifficultyOverlay(difficulty, getCustomDifficulty(settings));
+        applyConfigOverlays(configOverlay);
+
+        // Seed for this run: ?seed=123 in the URL reproduces a run, otherwise a fresh random seed
+        // Replay playback always uses the recorded seed
+        this.runSeed = this.playbackReplay ? this.playbackReplay.seed : this.resolveRunSeed();
+        this.replayPlayer = this.playbackReplay ? new ReplayPlayer(this.playbackReplay) : undefined;
+        // Input latency compensation is fixed for the run (playback uses the recorded one)
+        const inputOffsetMs = this.playbackReplay ? this.playbackReplay.inputOffsetMs ?? 0 : settings.inputOffsetMs;
+        // Assist mode is fixed for the run as well
+        const assist = this.playbackReplay ? this.playbackReplay.assist ?? null : getAssistOptions(settings);
+        this.replayRecorder = this.playbackReplay || this.practiceDropM !== null
+            ? undefined
+            : new ReplayRecorder(this.runSeed, { inputOffsetMs, assist, difficulty, configOverlay });
+        this.runStats = new RunStatsTracker(assist !== null, difficulty);
+        this.rng = new SeededRandom(this.runSeed);
+        if (GameConfig.debug) {
+            console.log(`[Run] Seed: ${this.runSeed}`);
+        }
 
         // Initialize Bullet Time System
         // Fix: Do not reset BEFORE creation on restart (logic error). 
@@ -160,11 +294,16 @@ export default class GameScene extends Phaser.Scene {
         // BulletTimeUI removed - bullet time is now automatic
 
         // Events for Bullet Time (Sound/Visuals)
-        this.events.on('bullet-time-start', () => {
-            // Sound/shader effects can be added here
-        });
-        this.events.on('bullet-time-end', () => {
-            // Remove effects here
+        audioEngine.setTimeScale(1);
+        this.events.on('bullet-time-start', () => this.sfx.bulletTimeStart());
+        this.events.on('bullet-time-end', () => this.sfx.bulletTimeEnd());
+        this.events.on('slime-damage', (damage: number) => this.sfx.damage(damage));
+        this.music = new AdaptiveMusic(audioEngine);
+        this.events.once('shutdown', () => {
+            this.music.destroy();
+            this.events.off('bullet-time-start');
+            this.events.off('bullet-time-end');
+            this.events.off('slime-damage');
         });
         // Manual bullet time removed - now automatic on PERFECT bounce
 
@@ -305,25 +444,17 @@ export default class GameScene extends Phaser.Scene {
             repeat: 0  // Play once only
         });
 
-        // Monster A01 - Left animation
-        this.anims.create({
-            key: 'monster_a01_left',
-            frames: [
-                { key: 'monster_a01_left_1' }, { key: 'monster_a01_left_2' }, { key: 'monster_a01_left_3' }
-            ],
-            frameRate: GameConfig.monster.a01.frameRate,
-            repeat: -1
-        });
-
-        // Monster A01 - Right animation
-        this.anims.create({
-            key: 'monster_a01_right',
-            frames: [
-                { key: 'monster_a01_right_1' }, { key: 'monster_a01_right_2' }, { key: 'monster_a01_right_3' }
-            ],
-            frameRate: GameConfig.monster.a01.frameRate,
-            repeat: -1
-        });
+        // Monster walk animations (one per manifest type and facing)
+        for (const definition of monsterRegistry.all()) {
+            for (const facing of ['left', 'right'] as const) {
+                this.anims.create({
+                    key: getMonsterAnimKey(definition, facing),
+                    frames: definition.frames[facing].map((_path, i) => ({ key: getMonsterFrameKey(definition, facing, i) })),
+                    frameRate: definition.frameRate,
+                    repeat: -1
+                });
+            }
+        }
 
         // 1. Create Ground
         this.ground = new Ground(this, groundY);
@@ -331,40 +462,70 @@ export default class GameScene extends Phaser.Scene {
         // 2. Create Slime - start at ground level (center lane)
         // Player should sit ON the ground, so Y = ground.y - playerCollisionRadius
         const playerRadius = GameConfig.display.playerCollisionRadius;
-        this.slime = new Slime(this, width / 2, this.ground.y - playerRadius, this.ground);
+        this.slime = new Slime(this, width / 2, this.ground.y - playerRadius, this.ground, this.rng.fork());
 
         // Initialize lane system with screen width
         this.slime.setScreenWidth(width);
+        this.slime.sim.inputOffsetSec = inputOffsetMs / 1000;
+        applyAssist(this.slime.sim, assist);
+
+        // 2b. Ghost of the best run so far (replays don't overwrite it, practice has none)
+        const isPractice = this.practiceDropM !== null;
+        const ghostTrack = profileStore.profile.ghost;
+        this.ghostRunner = ghostTrack && !isPractice ? new GhostRunner(this, ghostTrack) : undefined;
+        this.ghostRecorder = this.playbackReplay || isPractice ? undefined : new GhostTrackRecorder();
+
+        // 2c. Practice drop trainer
+        this.practiceDrill = isPractice ? new PracticeDrill(this.slime.sim, this.practiceDropM!) : undefined;
+        this.practiceHud = this.practiceDrill
+            ? new PracticeHud(this, this.practiceDrill, (meters) => this.formatHeight(meters))
+            : undefined;
 
         // 3. Initialize Gesture Manager for swipe/hold detection
         this.gestureManager = new GestureManager(width);
 
         // 3b. Initialize Monster Manager
-        this.monsterManager = new MonsterManager(this, width, groundY, this.pixelsPerMeter);
+        this.monsterManager = new MonsterManager(this, width, groundY, this.pixelsPerMeter, this.rng.fork());
+        this.monsterManager.spawningEnabled = !isPractice;
         this.monsterManager.spawnInitialMonsters();
+        this.projectileManager = new ProjectileManager(this, this.pixelsPerMeter);
+
+        // 3c. Player settings (re-applied live whenever they change)
+        this.applySettings(profileStore.profile.settings);
+        const unsubscribeSettings = profileStore.onSettingsChanged((settings) => this.applySettings(settings));
+        this.events.once('shutdown', unsubscribeSettings);
 
         // 4. Input - Keyboard (space = hold/fast-fall)
         this.input.keyboard?.on('keydown-SPACE', () => { this.isSpaceDown = true; });
         this.input.keyboard?.on('keyup-SPACE', () => { this.isSpaceDown = false; });
 
         // 4b. Input - Keyboard lane switching (A = left, D = right)
+        // Queued for the next physics step so it gets recorded with the run
         this.input.keyboard?.on('keydown-A', () => {
             if (this.slime.state === 'AIRBORNE' && !this.slime.laneSwitchLocked) {
-                this.slime.requestLaneChange(-1, (dir, x, y) => {
-                    this.monsterManager.checkSectorCollision(dir, x, y);
-                });
+                this.pendingSwipe = -1;
             }
         });
         this.input.keyboard?.on('keydown-D', () => {
             if (this.slime.state === 'AIRBORNE' && !this.slime.laneSwitchLocked) {
-                this.slime.requestLaneChange(1, (dir, x, y) => {
-                    this.monsterManager.checkSectorCollision(dir, x, y);
-                });
+                this.pendingSwipe = 1;
             }
         });
 
+        // 4c. Input - Pause (ESC / P)
+        this.input.keyboard?.on('keydown-ESC', () => this.togglePause());
+        this.input.keyboard?.on('keydown-P', () => this.togglePause());
+
+        // 4d. Input - Mute toggle (M)
+        this.input.keyboard?.on('keydown-M', () => {
+            profileStore.updateSettings({ muted: !profileStore.profile.settings.muted });
+        });
+
         // 5. Input - Touch with gesture tracking (for mobile)
-        this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+        this.input.on('pointerdown', (pointer: Phaser.Input.Pointer, currentlyOver: Phaser.GameObjects.GameObject[]) => {
+            // Taps on buttons (pause etc.) are not gameplay input
+            if (currentlyOver.length > 0) return;
+
             this.pointerDownCount++;
             this.gestureManager.onPointerDown(pointer.id, pointer.x, pointer.y, this.time.now);
         });
@@ -402,6 +563,11 @@ export default class GameScene extends Phaser.Scene {
             this.pointerDownCount = 0;
             this.isSpaceDown = false;
             this.gestureManager.clearAll();
+
+            // Leaving the tab pauses the run
+            if (this.canPause()) {
+                this.pauseGame();
+            }
         });
 
         // Meter HUD - adjusted position for mobile (using config)
@@ -438,6 +604,32 @@ export default class GameScene extends Phaser.Scene {
         // ===== START SCREEN OVERLAY =====
         this.createStartScreen(width, height);
 
+        // Pause button (top right, shown once the run starts)
+        this.pauseButton = this.add.text(width - 16, 16, '⏸', {
+            fontSize: '40px',
+            fontFamily: 'Arial',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(1, 0).setScrollFactor(0).setDepth(500).setVisible(false)
+            .setInteractive({ useHandCursor: true });
+        this.pauseButton.on('pointerdown', () => this.togglePause());
+
+        // Replay playback skips the start screen
+        if (this.replayPlayer) {
+            this.add.text(width / 2, 20, t('hud.replay'), {
+                fontSize: '28px',
+                fontFamily: 'Arial',
+                fontStyle: 'bold',
+                color: '#ff66ff',
+                stroke: '#000000',
+                strokeThickness: 4
+            }).setOrigin(0.5, 0).setScrollFactor(0).setDepth(200);
+            this.startGame();
+        } else if (isPractice) {
+            this.startGame();
+        }
+
         // Initialize Camera Shake Rig
         this.shakeRig = new CameraShakeRig();
 
@@ -452,6 +644,46 @@ export default class GameScene extends Phaser.Scene {
         this.applyResponsiveLayout();
     }
 
+    /**
+     * Seed for the current run (URL ?seed= override for bug reports / daily challenges)
+     */
+    private resolveRunSeed(): number {
+        const param = new URLSearchParams(window.location.search).get('seed');
+        if (param !== null && /^\d+$/.test(param)) {
+            return Number(param) >>> 0;
+        }
+        return SeededRandom.randomSeed();
+    }
+
+    /**
+     * Replay passed in the URL (?replay=...), only used for the first run after page load
+     */
+    private consumeUrlReplay(): Replay | null {
+        if (this.registry.get('urlReplayConsumed')) return null;
+        this.registry.set('urlReplayConsumed', true);
+
+        const param = new URLSearchParams(window.location.search).get('replay');
+        if (!param) return null;
+
+        const replay = decodeReplay(param);
+        if (!replay) {
+            console.warn('[Replay] Invalid ?replay= parameter, starting a normal run');
+        }
+        return replay;
+    }
+
+    /**
+     * Restart the scene: a normal run by default, or a replay / practice session
+     * (always passes data - Phaser keeps the previous run's data otherwise)
+     */
+    private restartRun(data: GameSceneData = {}) {
+        // Sprite animations are paused on the global animation manager
+        if (this.isPaused) {
+            this.anims.resumeAll();
+        }
+        this.scene.restart(data);
+    }
+
     private computeSafeFrame() {
         const width = this.scale.width;
         const height = this.scale.height;
@@ -534,6 +766,37 @@ export default class GameScene extends Phaser.Scene {
                 this.startButton.setFontSize(bSize);
                 this.startButton.setPosition(width / 2, sf.y + sf.height * 0.75);
             }
+
+            // Leaderboard / run history buttons (87% from top, side by side)
+            const hSize = Math.max(18, Math.floor(sf.width * 0.05));
+            if (this.difficultyButton) {
+                this.difficultyButton.setFontSize(hSize);
+                this.difficultyButton.setPosition(width / 2, sf.y + sf.height * 0.815);
+            }
+            if (this.leaderboardButton) {
+                this.leaderboardButton.setFontSize(hSize);
+                this.leaderboardButton.setPosition(sf.x + sf.width * 0.3, sf.y + sf.height * 0.87);
+            }
+            if (this.historyButton) {
+                this.historyButton.setFontSize(hSize);
+                this.historyButton.setPosition(sf.x + sf.width * 0.7, sf.y + sf.height * 0.87);
+            }
+            if (this.practiceButton) {
+                this.practiceButton.setFontSize(hSize);
+                this.practiceButton.setPosition(sf.x + sf.width * 0.3, sf.y + sf.height * 0.94);
+            }
+            if (this.settingsButton) {
+                this.settingsButton.setFontSize(hSize);
+                this.settingsButton.setPosition(sf.x + sf.width * 0.7, sf.y + sf.height * 0.94);
+            }
+        }
+
+        // Practice HUD: top left corner of the safe frame
+        this.practiceHud?.layout(sf.x, sf.y, sf.width);
+
+        // Pause button: top right corner of the safe frame
+        if (this.pauseButton) {
+            this.pauseButton.setPosition(sf.x + sf.width - 16, sf.y + 16);
         }
 
         // 4. Milestone: Safe width scaling
@@ -554,7 +817,7 @@ export default class GameScene extends Phaser.Scene {
             .setScrollFactor(0);
 
         // Title - Initial placeholders (will be resized by applyResponsiveLayout)
-        const title = this.add.text(width / 2, height * 0.3, '🟢 Slime Jump 🟢', {
+        const title = this.add.text(width / 2, height * 0.3, '', {
             fontSize: '64px',
             fontFamily: 'Arial',
             fontStyle: 'bold',
@@ -564,17 +827,18 @@ export default class GameScene extends Phaser.Scene {
         }).setOrigin(0.5).setScrollFactor(0);
 
         // Instructions
-        const instructions = this.add.text(width / 2, height * 0.5,
-            '按住屏幕 或 SPACE 快速下落\n在黄色状态松开 = PERFECT\n连续 3 次 PERFECT = 2x 力量!', {
+        const instructions = this.add.text(width / 2, height * 0.5, '', {
             fontSize: '32px',
             fontFamily: 'Arial',
             color: '#ffffff',
             align: 'center',
             lineSpacing: 10
         }).setOrigin(0.5).setScrollFactor(0);
+        i18n.bind(title, () => t('start.title'));
+        i18n.bind(instructions, () => t('start.instructions'));
 
         // Start Button
-        this.startButton = this.add.text(width / 2, height * 0.75, '[ 点击开始 ]', {
+        this.startButton = this.add.text(width / 2, height * 0.75, '', {
             fontSize: '48px',
             fontFamily: 'Arial',
             fontStyle: 'bold',
@@ -582,6 +846,7 @@ export default class GameScene extends Phaser.Scene {
             stroke: '#000000',
             strokeThickness: 6
         }).setOrigin(0.5).setScrollFactor(0).setInteractive({ useHandCursor: true });
+        i18n.bind(this.startButton, () => t('start.button'));
 
         // Hover effect
         this.startButton.on('pointerover', () => {
@@ -605,11 +870,39 @@ export default class GameScene extends Phaser.Scene {
             }
         });
 
+        // Difficulty preset (cycles Easy → Normal → Hard → Custom, remembered in the profile)
+        this.difficultyButton = this.createSecondaryButton(width / 2, height * 0.815, 'start.difficulty', () => {
+            this.cycleDifficulty();
+        }, () => ({ difficulty: t(`difficulty.${getDifficulty(profileStore.profile.settings)}`) }));
+
+        // Leaderboard + run history (last runs with their death causes)
+        this.leaderboardButton = this.createSecondaryButton(width * 0.3, height * 0.87, 'button.leaderboard', () => {
+            this.showLeaderboard();
+        });
+        this.historyButton = this.createSecondaryButton(width * 0.7, height * 0.87, 'button.history', () => {
+            this.showRunHistory();
+        });
+        this.practiceButton = this.createSecondaryButton(width * 0.3, height * 0.94, 'button.practice', () => {
+            this.showPracticeMenu();
+        });
+        this.settingsButton = this.createSecondaryButton(width * 0.7, height * 0.94, 'button.settings', () => {
+            this.openSettings();
+        });
+
         // Store in container
-        this.startOverlay = this.add.container(0, 0, [overlay, title, instructions, this.startButton]);
+        this.startOverlay = this.add.container(0, 0, [overlay, title, instructions, this.startButton, this.leaderboardButton, this.historyButton, this.practiceButton, this.settingsButton, this.difficultyButton]);
         this.startOverlay.setDepth(1000);
     }
 
+    /**
+     * Next difficulty preset; the scene restarts so the new overlay applies from a clean config
+     */
+    private cycleDifficulty() {
+        const current = DIFFICULTY_IDS.indexOf(getDifficulty(profileStore.profile.settings));
+        profileStore.updateSettings({ difficulty: DIFFICULTY_IDS[(current + 1) % DIFFICULTY_IDS.length] });
+        this.restartRun();
+    }
+
     private startGame() {
         this.gameStarted = true;
         this.startOverlay.destroy();
@@ -624,6 +917,167 @@ export default class GameScene extends Phaser.Scene {
         // Start camera transition
         this.isCameraTransitioning = true;
         this.cameraTransitionStartTime = this.time.now;
+
+        this.pauseButton.setVisible(true);
+    }
+
+    // ============================================================
+    // Pause (暂停)
+    // ============================================================
+
+    private canPause(): boolean {
+        return this.gameStarted && !this.isGameOver && !this.isPlayingDeathAnimation && !this.isPaused;
+    }
+
+    /**
+     * ESC / P / pause button: pause, or resume from the pause menu
+     */
+    private togglePause() {
+        if (this.canPause()) {
+            this.pauseGame();
+        } else if (this.isPaused && this.pauseMenu) {
+            this.beginResumeCountdown();
+        }
+    }
+
+    private pauseGame() {
+        this.isPaused = true;
+        this.pauseStartTime = this.time.now;
+
+        // Physics (accumulator, bullet time, monster timers) is frozen by update() returning early
+        this.tweens.pauseAll();
+        this.anims.pauseAll();
+        this.music.stop();
+
+        // Drop held input so nothing is "stuck" on resume
+        this.isSpaceDown = false;
+        this.pointerDownCount = 0;
+        this.gestureManager.clearAll();
+
+        this.pauseButton.setVisible(false);
+        this.showPauseMenu();
+    }
+
+    private showPauseMenu() {
+        const width = this.scale.width;
+        const height = this.scale.height;
+
+        const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.6)
+            .setScrollFactor(0).setInteractive();
+
+        const title = this.add.text(width / 2, height * 0.3, '', {
+            fontSize: `${Math.max(36, Math.floor(width * 0.12))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 8
+        }).setOrigin(0.5).setScrollFactor(0);
+        i18n.bind(title, () => t('pause.title'));
+
+        const resumeButton = this.createSecondaryButton(width / 2, height * 0.45, 'pause.resume', () => {
+            this.beginResumeCountdown();
+        });
+        const restartButton = this.createSecondaryButton(width / 2, height * 0.55, 'button.restart', () => {
+            this.restartRun(this.practiceDropM !== null ? { practiceDropM: this.practiceDropM } : {});
+        });
+        const settingsButton = this.createSecondaryButton(width / 2, height * 0.65, 'button.settings', () => {
+            this.openSettings();
+        });
+
+        this.pauseMenu = this.add.container(0, 0, [overlay, title, resumeButton, restartButton, settingsButton]);
+
+        // Practice: back to the start screen
+        if (this.practiceDropM !== null) {
+            this.pauseMenu.add(this.createSecondaryButton(width / 2, height * 0.75, 'practice.exit', () => {
+                this.restartRun();
+            }));
+        }
+        this.pauseMenu.setDepth(2500);
+    }
+
+    // ============================================================
+    // Settings (设置)
+    // ============================================================
+
+    /**
+     * Open the settings scene on top of this one (this scene is paused meanwhile)
+     */
+    private openSettings() {
+        this.scene.launch('SettingsScene', { returnTo: this.scene.key });
+        this.scene.pause();
+    }
+
+    /**
+     * Apply player settings to the running scene
+     */
+    private applySettings(settings: Readonly<ProfileSettings>) {
+        this.gestureManager.setSensitivity(settings.inputSensitivity);
+
+        this.shakeScale = getShakeScale(settings);
+        this.ground.shakeScale = this.shakeScale;
+        this.slime.shakeScale = this.shakeScale;
+
+        this.slime.cuePalette = settings.colorblindMode ? COLORBLIND_CUE_PALETTE : STANDARD_CUE_PALETTE;
+        this.slime.showTimingRing = settings.timingRing;
+        this.slime.reducedMotion = settings.reducedMotion;
+        this.slime.healthManager.reducedMotion = settings.reducedMotion;
+        this.monsterManager.setReducedMotion(settings.reducedMotion);
+        this.timingTickEnabled = settings.timingTick;
+    }
+
+    /**
+     * Height in the player's preferred unit ("123m" / "404ft")
+     */
+    private formatHeight(meters: number): string {
+        return i18n.formatHeight(meters, profileStore.profile.settings.heightUnit);
+    }
+
+    /**
+     * Close the menu and resume after 3-2-1 so players can re-grip mid-fall
+     */
+    private beginResumeCountdown() {
+        this.pauseMenu?.destroy();
+        this.pauseMenu = undefined;
+
+        const width = this.scale.width;
+        const height = this.scale.height;
+        let count = 3;
+
+        this.resumeCountdownText = this.add.text(width / 2, height * 0.4, `${count}`, {
+            fontSize: `${Math.max(64, Math.floor(width * 0.25))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffff00',
+            stroke: '#000000',
+            strokeThickness: 10
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(2500);
+
+        this.time.addEvent({
+            delay: 1000,
+            repeat: 2,
+            callback: () => {
+                count--;
+                if (count > 0) {
+                    this.resumeCountdownText?.setText(`${count}`);
+                } else {
+                    this.resumeGame();
+                }
+            }
+        });
+    }
+
+    private resumeGame() {
+        this.resumeCountdownText?.destroy();
+        this.resumeCountdownText = undefined;
+
+        // Camera intro keeps its progress
+        this.cameraTransitionStartTime += this.time.now - this.pauseStartTime;
+
+        this.tweens.resumeAll();
+        this.anims.resumeAll();
+        this.pauseButton.setVisible(true);
+        this.isPaused = false;
     }
 
     update(_time: number, delta: number) {
@@ -637,6 +1091,11 @@ export default class GameScene extends Phaser.Scene {
             return;
         }
 
+        // Paused: nothing advances (real time is not accumulated either)
+        if (this.isPaused) {
+            return;
+        }
+
         // During death animation: skip physics but keep camera/visuals running
         if (this.isPlayingDeathAnimation) {
             const dt = delta / 1000;
@@ -673,16 +1132,6 @@ export default class GameScene extends Phaser.Scene {
         const deltaSeconds = delta / 1000;
         const clampedDelta = Math.min(deltaSeconds, this.MAX_FRAME_DT);
 
-        // Update Bullet Time Manager (Real Time)
-        // Convert y to height meters: ground.y (bottom) - slime.y (top)
-        const heightM = (this.ground.y - this.slime.y) / this.pixelsPerMeter;
-        const isAscending = this.slime.vy < 0;
-        this.bulletTimeManager.update(clampedDelta, heightM, isAscending);
-
-        // Update Bullet Time Manager logic (timers, auto-cancel)
-        // Note: Position update moved to end of frame to match physics position
-        this.bulletTimeManager.update(clampedDelta, heightM, isAscending);
-
         // Apply Time Scale to Physics Step Accumulator
         // FIX: Previously we multiplied accumulator by timeScale, which caused the physics loop 
         // to run fewer times per second (low FPS).
@@ -691,54 +1140,36 @@ export default class GameScene extends Phaser.Scene {
 
         // ===== GESTURE PROCESSING =====
         // Process gesture manager once per frame (not per physics step)
-        const currentTime = this.time.now;
-
-        // ===== LANE SWITCHING LOGIC =====
-        // Core rule: Lane switch is allowed ONLY during ASCENT (vy < 0)
-        // IMPORTANT: Reset lock BEFORE gesture update so swipe detection sees unlocked state
-        if (this.slime.state === 'AIRBORNE' && this.slime.vy < 0) {
-            this.slime.resetLaneSwitchLock();
-            this.gestureManager.resetLaneSwitchLock();
-        }
+        // During replay playback the recorded per-step inputs are used instead
+        let isHoldActive = false;
+        if (!this.replayPlayer) {
+            // IMPORTANT: Reset lock BEFORE gesture update so swipe detection sees unlocked state
+            if (this.slime.state === 'AIRBORNE' && this.slime.vy < 0) {
+                this.gestureManager.resetLaneSwitchLock();
+            }
 
-        // Now process gestures with correct lock state
-        const gesture = this.gestureManager.update(currentTime);
+            const gesture = this.gestureManager.update(this.time.now);
 
-        // Determine if hold is active (from gesture or keyboard)
-        const isHoldActive = gesture.isHoldActive || this.isSpaceDown;
+            // Determine if hold is active (from gesture or keyboard)
+            isHoldActive = gesture.isHoldActive || this.isSpaceDown;
 
-        // Process lane switching (ascending + swipe detected)
-        // Note: Swipe and Hold are mutually exclusive in GestureManager, so no need to check isHoldActive here
-        if (this.slime.state === 'AIRBORNE' && this.slime.vy < 0 && gesture.swipeDirection !== 0) {
-            const direction = gesture.swipeDirection as -1 | 1;
-            // Trigger lane change with collision callback (fired on attack impact frame)
-            this.slime.requestLaneChange(direction, (dir, x, y) => {
-                this.monsterManager.checkSectorCollision(dir, x, y);
-            });
+            // Note: Swipe and Hold are mutually exclusive in GestureManager, so no need to check isHoldActive here
+            if (gesture.swipeDirection !== 0) {
+                this.pendingSwipe = gesture.swipeDirection as -1 | 1;
+            }
         }
 
         let steps = 0;
-        // Get current time scale for this frame
-        const timeScale = this.bulletTimeManager.timeScale;
-
         while (this.accumulator >= this.FIXED_DT && steps < this.MAX_STEPS_PER_FRAME) {
-            // Run physics at fixed timestep INTERVAL (e.g. 60 times/sec real time)
-            // BUT simulate scaled amount of time (e.g. 0.3 * 1/60 sec game time)
-            const simDt = this.FIXED_DT * timeScale;
-
-            this.slime.update(simDt * 1000, isHoldActive);  // Slime expects ms
-            this.ground.render(simDt, this.slime.getCompression(), this.slime.x);
-
-            // Update monsters
-            this.monsterManager.update(simDt);
-
-            // Check Collision (Player vs Monster) - REMOVED per user request
-            // Monsters do not kill the player.
+            this.stepSimulation(this.nextStepInput(isHoldActive));
 
             this.accumulator -= this.FIXED_DT; // Consume REAL time
             steps++;
         }
 
+        // Ghost follows the best run at the same step count
+        this.ghostRunner?.update(this.simStep);
+
         // If we hit max steps, drain accumulator to prevent spiral of death
         if (steps >= this.MAX_STEPS_PER_FRAME) {
             this.accumulator = 0;
@@ -799,9 +1230,9 @@ export default class GameScene extends Phaser.Scene {
 
         this.shakeRig.update(dt, inputChargeShake, inputAirShake);
 
-        // Apply Final Camera Position (Base + Shake)
-        this.cameras.main.scrollY = next + this.shakeRig.shakeY;
-        this.cameras.main.scrollX = this.shakeRig.shakeX;
+        // Apply Final Camera Position (Base + Shake scaled by player settings)
+        this.cameras.main.scrollY = next + this.shakeRig.shakeY * this.shakeScale;
+        this.cameras.main.scrollX = this.shakeRig.shakeX * this.shakeScale;
 
 
 
@@ -812,7 +1243,14 @@ export default class GameScene extends Phaser.Scene {
         const heightPixels = Math.max(0, groundLevel - currentFeet);
         const heightMeters = heightPixels / this.pixelsPerMeter;
 
-        this.heightText.setText(`${heightMeters.toFixed(0)}m`);
+        this.heightText.setText(this.formatHeight(heightMeters));
+
+        // Music follows altitude, ground charge tension and bullet time
+        this.music.update({
+            heightM: heightMeters,
+            chargeProximity: this.slime.state === 'GROUND_CHARGING' ? this.slime.chargeProximity : 0,
+            bulletTime: this.bulletTimeManager.isActive,
+        });
 
         // Make Height Text follow player (offset from config)
         const heightYOffset = GameConfig.ui.heightText.yOffset;
@@ -836,6 +1274,8 @@ export default class GameScene extends Phaser.Scene {
         if (this.slime.healthManager.isDead && !this.isGameOver && !this.isPlayingDeathAnimation) {
             // Block all input immediately
             this.isPlayingDeathAnimation = true;
+            this.sfx.death();
+            this.music.stop();
 
             // Play death animation, then show game over
             this.slime.playDeathAnimation(() => {
@@ -844,11 +1284,139 @@ export default class GameScene extends Phaser.Scene {
         }
     }
 
+    /**
+     * Input for the next physics step: recorded input during playback,
+     * otherwise the live input (recorded for this run's replay)
+     */
+    private nextStepInput(isHoldActive: boolean): ReplayStepInput {
+        if (this.replayPlayer) {
+            return this.replayPlayer.next() ?? { hold: false, swipe: 0 };
+        }
+
+        // A swipe only applies to the first step after it was detected
+        const input: ReplayStepInput = { hold: isHoldActive, swipe: this.pendingSwipe };
+        this.pendingSwipe = 0;
+        this.replayRecorder?.record(input);
+        return input;
+    }
+
+    /**
+     * Advance the whole game simulation by one fixed step
+     * Everything gameplay-relevant happens here so a replay reproduces the run step by step.
+     */
+    private stepSimulation(input: ReplayStepInput) {
+        // ===== LANE SWITCHING LOGIC =====
+        // Core rule: Lane switch is allowed ONLY during ASCENT (vy < 0)
+        if (this.slime.state === 'AIRBORNE' && this.slime.vy < 0) {
+            this.slime.resetLaneSwitchLock();
+
+            if (input.swipe !== 0) {
+                // Trigger lane change with collision callback (fired on attack impact frame)
+                const switched = this.slime.requestLaneChange(input.swipe, (dir, x, y) => {
+                    const { hits, kills, score, bombs, damage, energyDrain } = this.monsterManager.checkSectorCollision(dir, x, y);
+                    this.runStats.recordKills(kills, score);
+                    if (bombs > 0) {
+                        this.sfx.bomb();
+                        if (damage > 0) {
+                            this.slime.healthManager.takeDamage(damage, DeathCause.BOMB);
+                        }
+                        this.bulletTimeManager.drainEnergy(energyDrain);
+                    }
+                    if (hits > kills) {
+                        this.sfx.armorHit();
+                    }
+                    if (kills > 0) {
+                        this.sfx.kill(kills);
+                    }
+                });
+                if (switched) {
+                    this.sfx.slash();
+                }
+            }
+        }
+
+        // Update Bullet Time Manager (Real Time)
+        // Convert y to height meters: ground.y (bottom) - slime.y (top)
+        const heightM = (this.ground.y - this.slime.y) / this.pixelsPerMeter;
+        const isAscending = this.slime.vy < 0;
+        this.bulletTimeManager.update(this.FIXED_DT, heightM, isAscending);
+
+        // Update Bullet Time Manager logic (timers, auto-cancel)
+        // Note: Position update moved to end of frame to match physics position
+        this.bulletTimeManager.update(this.FIXED_DT, heightM, isAscending);
+
+        // Run physics at fixed timestep INTERVAL (e.g. 60 times/sec real time)
+        // BUT simulate scaled amount of time (e.g. 0.3 * 1/60 sec game time)
+        const simDt = this.FIXED_DT * this.bulletTimeManager.timeScale;
+        audioEngine.setTimeScale(this.bulletTimeManager.timeScale);
+
+        // Lane movement runs in real time (not slowed by bullet time)
+        this.slime.updateLaneMotion(this.FIXED_DT);
+
+        // Practice: input is ignored while waiting on the ground for the next drop
+        const hold = input.hold && !this.practiceDrill?.isParked;
+        const events = this.slime.update(simDt * 1000, hold);  // Slime expects ms
+        if (events.rating) {
+            this.runStats.recordLanding(events.rating, this.slime.perfectStreak);
+            if (events.releaseOffsetMs !== null) {
+                this.runStats.recordReleaseOffset(events.releaseOffsetMs);
+            }
+            this.sfx.landing(events.rating);
+            if (events.rating === 'PERFECT' && this.slime.perfectStreak > 1) {
+                this.sfx.combo(this.slime.perfectStreak);
+            }
+        }
+        if (this.practiceDrill?.step(this.FIXED_DT, events)) {
+            this.practiceHud?.refresh();
+        }
+        this.updateTimingTick(events.landed);
+        this.runStats.tick(this.FIXED_DT, this.bulletTimeManager.isActive);
+        this.ground.render(simDt, this.slime.getCompression(), this.slime.x);
+
+        // Update monsters (ranged ones shoot at the player's lane during bullet time)
+        this.monsterManager.update(simDt);
+        const shots = this.projectileManager.update(simDt, this.monsterManager.getAliveMonsters(), this.bulletTimeManager.isActive, this.slime, this.slime.healthManager);
+        if (shots > 0) {
+            this.sfx.monsterShot();
+        }
+
+        // Check Collision (Player vs Monster) - REMOVED per user request
+        // Monsters do not kill the player.
+
+        this.ghostRecorder?.record(this.slime.graphics);
+        this.simStep++;
+    }
+
+    /**
+     * Evenly spaced rising ticks from touchdown, then a chime on the step the yellow zone opens
+     */
+    private updateTimingTick(landed: boolean) {
+        if (landed) {
+            this.chargeTickIndex = 0;
+        }
+        if (!this.timingTickEnabled || this.slime.state !== 'GROUND_CHARGING' || this.slime.sim.holdLockout) {
+            return;
+        }
+
+        const progress = this.slime.sim.getYellowZoneProgress();
+        while (this.chargeTickIndex < this.CHARGE_TICKS && progress >= this.chargeTickIndex / this.CHARGE_TICKS) {
+            this.sfx.chargeTick(this.chargeTickIndex / this.CHARGE_TICKS);
+            this.chargeTickIndex++;
+        }
+        if (this.chargeTickIndex === this.CHARGE_TICKS && progress >= 1) {
+            this.sfx.yellowZoneOpen();
+            this.chargeTickIndex++;
+        }
+    }
+
     private updateMilestone(groundLevel: number, currentHeadHeightPixels: number) {
         const cam = this.cameras.main;
         const visibleLeft = cam.scrollX;
 
         // Check for new record
+        if (currentHeadHeightPixels > this.runBestHeight) {
+            this.runBestHeight = currentHeadHeightPixels;
+        }
         if (currentHeadHeightPixels > this.recordHeight) {
             this.recordHeight = currentHeadHeightPixels;
         }
@@ -872,7 +1440,18 @@ export default class GameScene extends Phaser.Scene {
         const textX = visibleLeft + 10;
         const meters = this.recordHeight / this.pixelsPerMeter;
 
-        this.milestoneText.setText(`🏆 ${meters.toFixed(0)}m`);
+        // Ghost marker: where the best run is right now, pinned on the record line
+        let ghostLabel = '';
+        if (this.ghostRunner?.isActive) {
+            const ghostX = this.ghostRunner.x;
+            this.milestoneGraphics.fillStyle(0x88ccff, 0.8);
+            this.milestoneGraphics.fillTriangle(ghostX - 8, lineY - 12, ghostX + 8, lineY - 12, ghostX, lineY);
+
+            const ghostHeadPixels = Math.max(0, groundLevel - (this.ghostRunner.y - this.slime.radius));
+            ghostLabel = t('hud.ghost', { height: this.formatHeight(ghostHeadPixels / this.pixelsPerMeter) });
+        }
+
+        this.milestoneText.setText(t('hud.record', { height: this.formatHeight(meters) }) + ghostLabel);
         this.milestoneText.setPosition(textX, lineY - 25);
     }
 
@@ -881,13 +1460,36 @@ export default class GameScene extends Phaser.Scene {
      * 落地时清理所有怪物，实现"一跳一舞台"机制
      */
     public onPlayerLanded() {
-        // 落地清场：清理所有怪物，防止累积刷怪
+        // 落地清场：清理所有怪物和弹体，防止累积刷怪
         this.monsterManager.onPlayerLanded();
+        this.projectileManager.clear();
     }
 
     private showGameOver() {
         this.isGameOver = true;
 
+        // Finish the replay of this run (playback keeps the replay it was showing)
+        this.lastReplay = this.replayPlayer ? this.replayPlayer.replay : this.replayRecorder?.finish();
+
+        const healthModel = this.slime.healthManager.model;
+        const stats = this.runStats.finish(healthModel.totalDamageTaken, healthModel.deathCause);
+
+        // Save the run to the profile (a new best also becomes the ghost for the next runs)
+        // Replay playback is not a real run and is not saved
+        const runHeightM = this.runBestHeight / this.pixelsPerMeter;
+        if (!this.replayPlayer) {
+            profileStore.recordRun({
+                date: Date.now(),
+                heightM: runHeightM,
+                durationSec: stats.durationSec,
+                seed: this.runSeed,
+                stats,
+            }, this.ghostRecorder?.finish(this.runBestHeight));
+        }
+        if (GameConfig.debug && this.lastReplay) {
+            console.log(`[Replay] ${encodeReplay(this.lastReplay)}`);
+        }
+
         const width = this.scale.width;
         const height = this.scale.height;
 
@@ -897,7 +1499,7 @@ export default class GameScene extends Phaser.Scene {
             .setDepth(2000);
 
         // Game Over title
-        const gameOverText = this.add.text(width / 2, height * 0.3, '💀 游戏结束 💀', {
+        const gameOverText = this.add.text(width / 2, height * 0.12, t('gameOver.title'), {
             fontSize: '72px',
             fontFamily: 'Arial',
             fontStyle: 'bold',
@@ -906,19 +1508,36 @@ export default class GameScene extends Phaser.Scene {
             strokeThickness: 8
         }).setOrigin(0.5).setScrollFactor(0).setDepth(2001);
 
-        // Stats
-        const finalHeight = this.recordHeight / this.pixelsPerMeter;
-        const statsText = this.add.text(width / 2, height * 0.5,
-            `最高记录: ${finalHeight.toFixed(0)}m\n生命值: 0`, {
-            fontSize: '32px',
+        // Death cause: what happened + how to avoid it
+        const cause = stats.deathCause;
+        const deathCauseText = this.add.text(width / 2, height * 0.21, cause ? t('gameOver.cause', {
+            explanation: t(`deathCause.${cause}.explanation`),
+            tip: t(`deathCause.${cause}.tip`),
+        }) : '', {
+            fontSize: `${Math.max(16, Math.min(26, Math.floor(width * 0.04)))}px`,
             fontFamily: 'Arial',
-            color: '#ffffff',
+            color: '#ffcc66',
             align: 'center',
-            lineSpacing: 10
+            lineSpacing: 6,
+            wordWrap: { width: width * 0.9 }
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(2001);
+
+        // Stats breakdown (scrollable)
+        const finalHeight = this.recordHeight / this.pixelsPerMeter;
+        const panelWidth = Math.min(width * 0.85, 520);
+        const statsPanel = new ScrollPanel(this, (width - panelWidth) / 2, height * 0.28, panelWidth, height * 0.34, 2001);
+        statsPanel.setRows(this.buildStatsRows(stats, runHeightM, finalHeight), Math.max(16, Math.min(26, Math.floor(width * 0.045))));
+
+        // Run seed (for reproducible bug reports)
+        const seedText = this.add.text(width / 2, height * 0.65, t('gameOver.seed', { seed: this.runSeed }), {
+            fontSize: '20px',
+            fontFamily: 'Arial',
+            color: '#aaaaaa',
+            align: 'center'
         }).setOrigin(0.5).setScrollFactor(0).setDepth(2001);
 
         // Restart button
-        const restartButton = this.add.text(width / 2, height * 0.7, '[ 重新开始 ]', {
+        const restartButton = this.add.text(width / 2, height * 0.73, t('button.restart'), {
             fontSize: '48px',
             fontFamily: 'Arial',
             fontStyle: 'bold',
@@ -939,17 +1558,302 @@ export default class GameScene extends Phaser.Scene {
 
         // Click to restart
         restartButton.on('pointerdown', () => {
-            this.scene.restart();
+            this.restartRun();
         });
 
         // Also allow space to restart
         this.input.keyboard?.once('keydown-SPACE', () => {
-            this.scene.restart();
+            this.restartRun();
+        });
+
+        // Replay buttons: watch this run again / copy it for a bug report
+        const watchButton = this.createSecondaryButton(width * 0.3, height * 0.84, 'gameOver.watchReplay', () => {
+            if (this.lastReplay) {
+                this.restartRun({ replay: this.lastReplay });
+            }
+        });
+        const copyButton = this.createSecondaryButton(width * 0.7, height * 0.84, 'gameOver.copyReplay', () => {
+            if (!this.lastReplay) return;
+            copyToClipboard(encodeReplay(this.lastReplay))
+                .then(() => copyButton.setText(t('gameOver.copied')))
+                .catch(() => copyButton.setText(t('gameOver.copyFailed')));
+        });
+
+        const leaderboardButton = this.createSecondaryButton(width / 2, height * 0.92, 'button.leaderboard', () => {
+            this.showLeaderboard();
         });
 
         // Store in container
-        this.gameOverOverlay = this.add.container(0, 0, [overlay, gameOverText, statsText, restartButton]);
+        // (the stats panel stays outside: its mask does not work inside a container)
+        this.gameOverOverlay = this.add.container(0, 0, [overlay, gameOverText, deathCauseText, seedText, restartButton, watchButton, copyButton, leaderboardButton]);
         this.gameOverOverlay.setDepth(2000);
+
+        // Qualifying runs ask for a name and go on the local leaderboard
+        if (!this.replayPlayer) {
+            this.promptLeaderboardEntry({
+                name: '',
+                heightM: runHeightM,
+                perfects: stats.perfectCount,
+                kills: stats.kills,
+                date: Date.now(),
+                seed: this.runSeed,
+                assist: stats.assist,
+                difficulty: stats.difficulty,
+            });
+        }
+    }
+
+    /**
+     * Ask for a player name if the run makes the top 10, then show the board
+     */
+    private promptLeaderboardEntry(entry: LeaderboardEntry) {
+        const rank = getLeaderboardRank(profileStore.profile.leaderboard, entry);
+        if (rank === null) return;
+
+        new NameEntryPrompt(this, {
+            title: t('leaderboard.prompt', { rank: rank + 1 }),
+            defaultName: profileStore.profile.lastPlayerName,
+            depth: 2500,
+            onSubmit: (name) => {
+                const finalRank = profileStore.addLeaderboardEntry({ ...entry, name: sanitizePlayerName(name, t('leaderboard.defaultName')) });
+                this.showLeaderboard(finalRank ?? -1);
+            },
+            onCancel: () => { },
+        });
     }
 
+    /**
+     * Rows of the game over stats panel
+     */
+    private buildStatsRows(stats: RunStats, runHeightM: number, bestHeightM: number): Array<[string, string]> {
+        const rows: Array<[string, string]> = [
+            [t('stats.runHeight'), this.formatHeight(runHeightM)],
+            [t('stats.bestHeight'), this.formatHeight(bestHeightM)],
+            [t('stats.duration'), i18n.formatDuration(stats.durationSec)],
+            [t('stats.perfect'), i18n.formatNumber(stats.perfectCount)],
+            [t('stats.normal'), i18n.formatNumber(stats.normalCount)],
+            [t('stats.failed'), i18n.formatNumber(stats.failedCount)],
+            [t('stats.longestStreak'), i18n.formatNumber(stats.longestStreak)],
+            [t('stats.kills'), i18n.formatNumber(stats.kills)],
+            [t('stats.killScore'), i18n.formatNumber(stats.killScore)],
+            [t('stats.damageTaken'), i18n.formatNumber(stats.damageTaken)],
+            [t('stats.bulletTime'), i18n.formatSeconds(stats.bulletTimeSec)],
+            [t('stats.deathCause'), this.formatDeathCause(stats.deathCause)],
+            [t('stats.difficulty'), t(`difficulty.${stats.difficulty}`)],
+        ];
+        if (stats.assist) {
+            rows.push([t('stats.assist'), t('stats.assistOn')]);
+        }
+
+        // Release timing distribution (early / late histogram)
+        const timing = summarizeReleaseTiming(stats.releaseOffsetsMs);
+        if (timing.count > 0) {
+            rows.push(
+                [t('stats.timingMean'), this.formatTimingOffset(timing.meanMs)],
+                [t('stats.timingSplit'), t('stats.timingSplitValue', {
+                    early: i18n.formatNumber(timing.earlyCount),
+                    late: i18n.formatNumber(timing.lateCount),
+                })],
+            );
+            for (const bucket of timing.buckets) {
+                const from = this.formatTimingOffset(bucket.fromMs, false);
+                const to = this.formatTimingOffset(bucket.toMs, false);
+                const label = !isFinite(bucket.fromMs) ? t('stats.timingBucketBelow', { to })
+                    : !isFinite(bucket.toMs) ? t('stats.timingBucketAbove', { from })
+                    : t('stats.timingBucket', { from, to });
+                rows.push([label, '▮'.repeat(Math.ceil(bucket.count / timing.count * 10)) + ` ${i18n.formatNumber(bucket.count)}`]);
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * Signed ms offset ("+23", "-8"), with the unit by default
+     */
+    private formatTimingOffset(offsetMs: number, withUnit: boolean = true): string {
+        const rounded = Math.round(offsetMs);
+        const offset = (rounded > 0 ? '+' : rounded < 0 ? '-' : '') + i18n.formatNumber(Math.abs(rounded));
+        return withUnit ? t('stats.timingOffset', { offset }) : offset;
+    }
+
+    /**
+     * Suffix for runs not played on plain normal difficulty (" [Hard] (Assist)")
+     */
+    private formatRunTags(difficulty: DifficultyId, assist: boolean): string {
+        const difficultyTag = difficulty !== 'normal' ? t('leaderboard.difficultyTag', { difficulty: t(`difficulty.${difficulty}`) }) : '';
+        return difficultyTag + (assist ? t('leaderboard.assistTag') : '');
+    }
+
+    /**
+     * Run history overlay (opened from the start screen)
+     */
+    private showRunHistory() {
+        const rows: Array<[string, string]> = profileStore.profile.runHistory.map((run) => {
+            const cause = this.formatDeathCause(run.stats?.deathCause ?? null);
+            const tags = this.formatRunTags(run.stats?.difficulty ?? 'normal', run.stats?.assist ?? false);
+            return [`${i18n.formatShortDate(run.date)}  ${this.formatHeight(run.heightM)}${tags}`, cause];
+        });
+        if (rows.length === 0) {
+            rows.push([t('history.empty'), '']);
+        }
+
+        this.showListOverlay(t('history.title'), rows);
+    }
+
+    /**
+     * Local top 10 (opened from the start screen and the game over screen)
+     * @param highlightRank - 0-based rank to highlight (the entry just added)
+     */
+    private showLeaderboard(highlightRank: number = -1) {
+        const rows: Array<[string, string]> = profileStore.profile.leaderboard.map((entry, i) => [
+            `${i + 1}. ${entry.name}${this.formatRunTags(entry.difficulty, entry.assist)}  ${i18n.formatShortDate(entry.date)}`,
+            `${this.formatHeight(entry.heightM)}  P${entry.perfects}  K${entry.kills}`,
+        ]);
+        if (rows.length === 0) {
+            rows.push([t('leaderboard.empty'), '']);
+        }
+
+        this.showListOverlay(t('leaderboard.title'), rows, highlightRank);
+    }
+
+    /**
+     * Practice drop height picker (opened from the start screen)
+     */
+    private showPracticeMenu() {
+        const width = this.scale.width;
+        const height = this.scale.height;
+
+        // Blocks clicks to the screen underneath
+        const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85)
+            .setScrollFactor(0).setDepth(3000).setInteractive();
+
+        const title = this.add.text(width / 2, height * 0.2, '', {
+            fontSize: `${Math.max(28, Math.floor(width * 0.08))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6,
+            align: 'center'
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(3001);
+        i18n.bind(title, () => t('practice.title'));
+
+        const heightButtons = PRACTICE_DROP_HEIGHTS_M.map((dropM, i) =>
+            this.createSecondaryButton(width / 2, height * (0.38 + i * 0.1), 'practice.height', () => {
+                this.restartRun({ practiceDropM: dropM });
+            }, () => ({ height: this.formatHeight(dropM) })).setDepth(3001)
+        );
+
+        const closeButton = this.createSecondaryButton(width / 2, height * 0.88, 'button.back', () => {
+            overlay.destroy();
+            title.destroy();
+            heightButtons.forEach((button) => button.destroy());
+            closeButton.destroy();
+        }).setDepth(3001);
+    }
+
+    /**
+     * Full screen list overlay with a scrollable panel and a back button
+     */
+    private showListOverlay(titleLabel: string, rows: Array<[string, string]>, highlightRow: number = -1) {
+        const width = this.scale.width;
+        const height = this.scale.height;
+
+        // Blocks clicks to the screen underneath
+        const overlay = this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85)
+            .setScrollFactor(0).setDepth(3000).setInteractive();
+
+        const title = this.add.text(width / 2, height * 0.1, titleLabel, {
+            fontSize: `${Math.max(28, Math.floor(width * 0.08))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(3001);
+
+        const panelWidth = Math.min(width * 0.9, 560);
+        const panel = new ScrollPanel(this, (width - panelWidth) / 2, height * 0.17, panelWidth, height * 0.63, 3001);
+        panel.setRows(rows, Math.max(16, Math.min(24, Math.floor(width * 0.042))), highlightRow);
+
+        const closeButton = this.createSecondaryButton(width / 2, height * 0.88, 'button.back', () => {
+            panel.destroy();
+            overlay.destroy();
+            title.destroy();
+            closeButton.destroy();
+        }).setDepth(3001);
+    }
+
+    /**
+     * Short death cause label ("-" for runs without one)
+     */
+    private formatDeathCause(cause: DeathCause | null): string {
+        return cause ? t(`deathCause.${cause}.title`) : '-';
+    }
+
+    /**
+     * Small secondary text button (game over screen, overlays)
+     * @param labelKey - Text table key (label follows language switches)
+     * @param params - Placeholder values, re-evaluated on language switches
+     */
+    private createSecondaryButton(
+        x: number,
+        y: number,
+        labelKey: StringKey,
+        onClick: () => void,
+        params?: () => TranslateParams
+    ): Phaser.GameObjects.Text {
+        const button = this.add.text(x, y, '', {
+            fontSize: '28px',
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#66ccff',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(2001).setInteractive({ useHandCursor: true });
+        i18n.bind(button, () => t(labelKey, params?.()));
+
+        button.on('pointerover', () => {
+            button.setScale(1.1);
+            button.setColor('#ffffff');
+        });
+        button.on('pointerout', () => {
+            button.setScale(1.0);
+            button.setColor('#66ccff');
+        });
+        button.on('pointerdown', onClick);
+
+        return button;
+    }
+
+}
+
+/**
+ * Copy text to the clipboard
+ * Falls back to a temporary <textarea> + execCommand where the async clipboard API is missing (plain http, old WebViews)
+ */
+function copyToClipboard(text: string): Promise<void> {
+    if (navigator.clipboard) {
+        return navigator.clipboard.writeText(text);
+    }
+
+    return new Promise((resolve, reject) => {
+        const textarea = document.createElement('textarea');
+        textarea.value = text;
+        Object.assign(textarea.style, { position: 'fixed', left: '0', top: '0', opacity: '0' });
+        document.body.appendChild(textarea);
+        textarea.select();
+        let copied = false;
+        try {
+            copied = document.execCommand('copy');
+        } catch {
+            copied = false;
+        }
+        textarea.remove();
+        if (copied) {
+            resolve();
+        } else {
+            reject(new Error('Clipboard unavailable'));
+        }
+    });
 }
@@ -0,0 +1,214 @@
+import Phaser from 'phaser';
+import { profileStore } from '../storage/ProfileStore';
+import type { ProfileSettings } from '../storage/ProfileStore';
+import { i18n, t } from '../i18n/I18n';
+import { LANGUAGE_NAMES } from '../i18n/strings';
+import type { StringKey } from '../i18n/strings';
+import { MIN_INPUT_OFFSET_MS, MAX_INPUT_OFFSET_MS } from '../input/LatencyCalibrator';
+
+type NumericSettingKey = 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'shakeIntensity' | 'inputSensitivity' | 'assistWindowScale'
+    | 'customTimingScale' | 'customMonsterScale' | 'customDamageScale';
+type ToggleSettingKey = 'muted' | 'cameraShake' | 'reducedMotion' | 'timingTick' | 'timingRing' | 'colorblindMode' | 'assistMode' | 'assistNoInstantDeath';
+type ChoiceSettingKey = 'heightUnit' | 'language';
+type MsSettingKey = 'inputOffsetMs';
+
+type SettingRow =
+    | { kind: 'percent'; key: NumericSettingKey; label: StringKey; min: number; max: number; step: number }
+    | { kind: 'toggle'; key: ToggleSettingKey; label: StringKey }
+    | { kind: 'choice'; key: ChoiceSettingKey; label: StringKey; options: Array<{ value: string; label: () => string }> }
+    | { kind: 'ms'; key: MsSettingKey; label: StringKey; min: number; max: number; step: number };
+
+const SETTING_ROWS: SettingRow[] = [
+    { kind: 'toggle', key: 'muted', label: 'settings.muted' },
+    { kind: 'percent', key: 'masterVolume', label: 'settings.masterVolume', min: 0, max: 1, step: 0.1 },
+    { kind: 'percent', key: 'sfxVolume', label: 'settings.sfxVolume', min: 0, max: 1, step: 0.1 },
+    { kind: 'percent', key: 'musicVolume', label: 'settings.musicVolume', min: 0, max: 1, step: 0.1 },
+    { kind: 'toggle', key: 'cameraShake', label: 'settings.cameraShake' },
+    { kind: 'percent', key: 'shakeIntensity', label: 'settings.shakeIntensity', min: 0.25, max: 1.5, step: 0.25 },
+    { kind: 'toggle', key: 'reducedMotion', label: 'settings.reducedMotion' },
+    { kind: 'toggle', key: 'timingTick', label: 'settings.timingTick' },
+    { kind: 'toggle', key: 'timingRing', label: 'settings.timingRing' },
+    { kind: 'toggle', key: 'colorblindMode', label: 'settings.colorblindMode' },
+    {
+        kind: 'choice', key: 'heightUnit', label: 'settings.heightUnit', options: [
+            { value: 'm', label: () => t('settings.unit.m') },
+            { value: 'ft', label: () => t('settings.unit.ft') },
+        ]
+    },
+    {
+        kind: 'choice', key: 'language', label: 'settings.language', options: [
+            { value: 'auto', label: () => t('settings.language.auto') },
+            { value: 'zh', label: () => LANGUAGE_NAMES.zh },
+            { value: 'en', label: () => LANGUAGE_NAMES.en },
+        ]
+    },
+    { kind: 'percent', key: 'inputSensitivity', label: 'settings.inputSensitivity', min: 0.5, max: 1.5, step: 0.1 },
+    { kind: 'ms', key: 'inputOffsetMs', label: 'settings.inputOffset', min: MIN_INPUT_OFFSET_MS, max: MAX_INPUT_OFFSET_MS, step: 5 },
+    { kind: 'toggle', key: 'assistMode', label: 'settings.assistMode' },
+    { kind: 'percent', key: 'assistWindowScale', label: 'settings.assistWindowScale', min: 1, max: 3, step: 0.25 },
+    { kind: 'toggle', key: 'assistNoInstantDeath', label: 'settings.assistNoInstantDeath' },
+    { kind: 'percent', key: 'customTimingScale', label: 'settings.customTiming', min: 0.5, max: 2, step: 0.1 },
+    { kind: 'percent', key: 'customMonsterScale', label: 'settings.customMonsters', min: 0.5, max: 2, step: 0.1 },
+    { kind: 'percent', key: 'customDamageScale', label: 'settings.customDamage', min: 0, max: 2, step: 0.1 },
+];
+
+// Rows share the space between the title and the calibrate button
+const ROW_TOP = 0.15;
+const ROW_SPACING = Math.min(0.052, 0.68 / (SETTING_ROWS.length - 1));
+
+/**
+ * SettingsScene - 设置界面 (叠加在 GameScene 之上)
+ *
+ * 每次修改立即写入 profileStore，GameScene 通过 onSettingsChanged 实时应用，无需重启场景。
+ * 切换语言时本界面的文字也立即刷新。
+ * Launched with { returnTo } - the scene that was paused to open settings.
+ */
+export default class SettingsScene extends Phaser.Scene {
+    private returnTo: string = 'GameScene';
+    private valueTexts: Phaser.GameObjects.Text[] = [];
+
+    constructor() {
+        super('SettingsScene');
+    }
+
+    init(data: { returnTo?: string }) {
+        this.returnTo = data?.returnTo ?? 'GameScene';
+    }
+
+    create() {
+        const { width, height } = this.scale;
+        this.valueTexts = [];
+
+        // Dim the paused game underneath (and swallow its clicks)
+        this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.85).setInteractive();
+
+        const title = this.add.text(width / 2, height * 0.08, '', {
+            fontSize: `${Math.max(32, Math.floor(width * 0.09))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#000000',
+            strokeThickness: 6
+        }).setOrigin(0.5);
+        i18n.bind(title, () => t('settings.title'));
+
+        const fontSize = Math.max(18, Math.floor(width * 0.045));
+        SETTING_ROWS.forEach((row, i) => {
+            const y = height * (ROW_TOP + i * ROW_SPACING);
+
+            const label = this.add.text(width * 0.06, y, '', {
+                fontSize: `${fontSize}px`,
+                fontFamily: 'Arial',
+                color: '#aaaacc'
+            }).setOrigin(0, 0.5);
+            i18n.bind(label, () => t(row.label));
+
+            this.createArrow(width * 0.52, y, '◀', fontSize, () => this.changeSetting(row, -1));
+            this.valueTexts.push(this.add.text(width * 0.73, y, '', {
+                fontSize: `${fontSize}px`,
+                fontFamily: 'Arial',
+                fontStyle: 'bold',
+                color: '#ffffff'
+            }).setOrigin(0.5));
+            this.createArrow(width * 0.94, y, '▶', fontSize, () => this.changeSetting(row, 1));
+        });
+
+        // Latency calibration wizard (fills in the input offset row)
+        const calibrateButton = this.add.text(width / 2, height * 0.875, '', {
+            fontSize: `${fontSize}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#66ccff',
+            stroke: '#000000',
+            strokeThickness: 4
+        }).setOrigin(0.5).setInteractive({ useHandCursor: true });
+        i18n.bind(calibrateButton, () => t('settings.calibrate'));
+        calibrateButton.on('pointerover', () => calibrateButton.setScale(1.1));
+        calibrateButton.on('pointerout', () => calibrateButton.setScale(1.0));
+        calibrateButton.on('pointerdown', () => this.openCalibration());
+
+        const backButton = this.add.text(width / 2, height * 0.94, '', {
+            fontSize: `${Math.max(24, Math.floor(width * 0.07))}px`,
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+            color: '#00ff00',
+            stroke: '#000000',
+            strokeThickness: 6
+        }).setOrigin(0.5).setInteractive({ useHandCursor: true });
+        i18n.bind(backButton, () => t('button.back'));
+        backButton.on('pointerover', () => backButton.setScale(1.1));
+        backButton.on('pointerout', () => backButton.setScale(1.0));
+        backButton.on('pointerdown', () => this.close());
+
+        this.input.keyboard?.on('keydown-ESC', () => this.close());
+
+        // Back from the calibration wizard with a new offset
+        this.events.on('resume', () => this.refreshValues());
+        this.events.once('shutdown', () => this.events.off('resume'));
+
+        this.refreshValues();
+    }
+
+    private openCalibration() {
+        this.scene.launch('CalibrationScene', { returnTo: this.scene.key });
+        this.scene.pause();
+    }
+
+    private close() {
+        this.scene.resume(this.returnTo);
+        this.scene.stop();
+    }
+
+    /**
+     * Step a setting left (-1) or right (+1) and save it
+     */
+    private changeSetting(row: SettingRow, direction: -1 | 1) {
+        const settings = profileStore.profile.settings;
+        let patch: Partial<ProfileSettings>;
+
+        if (row.kind === 'percent') {
+            const next = Phaser.Math.Clamp(settings[row.key] + row.step * direction, row.min, row.max);
+            patch = { [row.key]: Math.round(next * 100) / 100 };
+        } else if (row.kind === 'ms') {
+            patch = { [row.key]: Phaser.Math.Clamp(settings[row.key] + row.step * direction, row.min, row.max) };
+        } else if (row.kind === 'toggle') {
+            patch = { [row.key]: !settings[row.key] };
+        } else {
+            const index = row.options.findIndex((option) => option.value === settings[row.key]);
+            const next = row.options[(index + direction + row.options.length) % row.options.length];
+            patch = { [row.key]: next.value };
+        }
+
+        profileStore.updateSettings(patch);
+        this.refreshValues();
+    }
+
+    private refreshValues() {
+        const settings = profileStore.profile.settings;
+        SETTING_ROWS.forEach((row, i) => {
+            let label: string;
+            if (row.kind === 'percent') {
+                label = `${Math.round(settings[row.key] * 100)}%`;
+            } else if (row.kind === 'ms') {
+                const ms = settings[row.key];
+                label = t('settings.msValue', { value: (ms > 0 ? '+' : ms < 0 ? '-' : '') + i18n.formatNumber(Math.abs(ms)) });
+            } else if (row.kind === 'toggle') {
+                label = t(settings[row.key] ? 'settings.on' : 'settings.off');
+            } else {
+                label = row.options.find((option) => option.value === settings[row.key])?.label() ?? '';
+            }
+            this.valueTexts[i].setText(label);
+        });
+    }
+
+    private createArrow(x: number, y: number, label: string, fontSize: number, onClick: () => void) {
+        const arrow = this.add.text(x, y, label, {
+            fontSize: `${fontSize}px`,
+            fontFamily: 'Arial',
+            color: '#ffff00',
+            padding: { x: 10, y: 6 }
+        }).setOrigin(0.5).setInteractive({ useHandCursor: true });
+        arrow.on('pointerdown', onClick);
+        return arrow;
+    }
+}
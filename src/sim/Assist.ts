@@ -0,0 +1,22 @@
+import type { SlimeSim } from './SlimeSim';
+
+/**
+ * Assist - 辅助模式 (无障碍)
+ *
+ * 按比例放宽所有时机窗口 (黄区时长、峰值后宽容、按太久锁定延迟)，可选关闭一击必死
+ * (没有操作 / 按太久 / 1000m 以上的落地改为重伤)。
+ * 整局固定：开局时从设置读取并记录在回放里；用辅助模式打出的成绩在统计和排行榜中标记。
+ */
+
+export interface AssistOptions {
+    windowScale: number;        // Multiplier for every timing window (1 = normal)
+    noInstantDeath: boolean;    // Instant death landings become a heavy hit instead
+}
+
+/**
+ * Apply the run's assist options to the sim (null = assist off)
+ */
+export function applyAssist(sim: SlimeSim, assist: AssistOptions | null): void {
+    sim.timingWindowScale = assist?.windowScale ?? 1;
+    sim.health.instantDeathEnabled = !(assist?.noInstantDeath ?? false);
+}
@@ -0,0 +1,15 @@
+/**
+ * DeathCause - 死亡原因
+ *
+ * HealthModel 记录死因，GameScene 在结算界面和对局记录里显示对应的说明和提示
+ * (文字在 i18n 文本表的 deathCause.<id>.title / explanation / tip)。
+ */
+export const DeathCause = {
+    NO_INPUT: 'NO_INPUT',               // 100m 以上落地完全没有操作
+    HELD_TOO_LONG: 'HELD_TOO_LONG',     // 100m 以上按住太久错过起跳
+    FALL_DAMAGE: 'FALL_DAMAGE',         // 高空 NORMAL 落地的伤害耗尽生命
+    MONSTER_DAMAGE: 'MONSTER_DAMAGE',   // 被怪物伤害耗尽生命
+    BOMB: 'BOMB',                       // 斩到炸弹怪物耗尽生命
+} as const;
+
+export type DeathCause = typeof DeathCause[keyof typeof DeathCause];
@@ -0,0 +1,172 @@
+import { GameConfig } from '../config';
+import { DeathCause } from './DeathCause';
+
+/**
+ * HealthModel
+ *
+ * Pure health rules for the slime (no Phaser dependency):
+ * - Health tracking (starts at 100 HP)
+ * - Damage calculation based on fall height and landing judgment
+ * - Death detection
+ *
+ * SlimeHealthManager wraps this model and renders the health bar UI.
+ */
+export class HealthModel {
+    // Health state
+    public currentHealth: number = 100;
+    public maxHealth: number = 100;
+    public isDead: boolean = false;
+    public totalDamageTaken: number = 0;    // HP lost this run (end-of-run stats)
+    public deathCause: DeathCause | null = null;
+    public invulnerable: boolean = false;   // Practice mode: no damage, no death
+    public instantDeathEnabled: boolean = true;     // Assist mode can turn instant deaths into heavy hits
+
+    // Optional listener (UI feedback when damage is applied)
+    public onDamage?: (damage: number) => void;
+
+    // Constants (safe zone / instant death heights come from GameConfig.health, difficulty presets override them)
+    private readonly MAX_HIT_WITHOUT_INSTANT_DEATH = 50;   // Largest single hit when instant death is off
+    private readonly PIXELS_PER_METER = GameConfig.display.pixelsPerMeter;
+
+    /**
+     * True if a fall from this height is outside the safe zone (GameConfig.health.safeZoneMeters)
+     * SlimeSim uses this for its instant-death and anti-exploit checks so difficulty overlays apply everywhere
+     */
+    public isAboveSafeZone(heightPixels: number): boolean {
+        return heightPixels / this.PIXELS_PER_METER > GameConfig.health.safeZoneMeters;
+    }
+
+    /**
+     * Called when the slime lands on the ground
+     * @param heightPixels - Fall height in pixels (from lastApexHeight)
+     * @param rating - Landing judgment: 'PERFECT' | 'NORMAL' | 'FAILED'
+     * @param holdLockout - True if player held space too long (missed bounce)
+     */
+    public onLanding(heightPixels: number, rating: 'PERFECT' | 'NORMAL' | 'FAILED', holdLockout: boolean): void {
+        if (this.isDead) return;
+
+        const heightMeters = heightPixels / this.PIXELS_PER_METER;
+        const safeZoneMeters = GameConfig.health.safeZoneMeters;
+
+        // Check instant death conditions
+        // 1. Missed bounce timing after 100m
+        if (holdLockout && this.isAboveSafeZone(heightPixels)) {
+            this.dieInstantly(DeathCause.HELD_TOO_LONG);
+            return;
+        }
+
+        // 2. Perfect judgment never takes damage
+        if (rating === 'PERFECT') {
+            return;
+        }
+
+        // 3. Below 100m safe zone - no damage
+        if (heightMeters <= safeZoneMeters) {
+            return;
+        }
+
+        // 4. Calculate damage for NORMAL judgment above 100m
+        if (rating === 'NORMAL') {
+            let damage = this.calculateDamage(heightMeters);
+            if (!this.instantDeathEnabled) {
+                damage = Math.min(damage, this.MAX_HIT_WITHOUT_INSTANT_DEATH);
+            }
+            this.takeDamage(damage);
+        }
+
+        // FAILED judgment is already punished by the existing streak system
+        // No additional health damage needed
+    }
+
+    /**
+     * Calculate damage using exponential curve
+     *
+     * Damage range:
+     * - 100m: 0 damage (safe zone)
+     * - 300m: ~22 damage
+     * - 500m: ~44 damage
+     * - 700m: ~67 damage
+     * - 1000m: 100 damage (instant death)
+     *
+     * Uses linear interpolation for predictable damage scaling.
+     * (Values above are the normal difficulty, see GameConfig.health)
+     */
+    public calculateDamage(heightMeters: number): number {
+        const { safeZoneMeters, instantDeathMeters, fallDamageMax } = GameConfig.health;
+
+        // Clamp to safe zone
+        if (heightMeters <= safeZoneMeters) {
+            return 0;
+        }
+
+        // Instant death above 1000m
+        if (heightMeters >= instantDeathMeters) {
+            return this.currentHealth; // Kill instantly
+        }
+
+        // Linear damage scaling from safe zone to instant death
+        // At 100m: 0 damage, at 1000m: 100 damage
+        const normalizedHeight = heightMeters - safeZoneMeters; // 0 at 100m
+        const maxNormalizedHeight = instantDeathMeters - safeZoneMeters; // 900
+
+        // Linear interpolation: damage increases proportionally with height
+        const rawDamage = fallDamageMax * (normalizedHeight / maxNormalizedHeight);
+
+        // Clamp to valid range
+        return Math.min(fallDamageMax, Math.max(0, rawDamage));
+    }
+
+    /**
+     * Apply damage to the slime
+     * @param cause - Death cause reported if this damage depletes health
+     */
+    public takeDamage(damage: number, cause: DeathCause = DeathCause.FALL_DAMAGE): void {
+        if (this.isDead || this.invulnerable || damage <= 0) return;
+
+        this.totalDamageTaken += Math.min(this.currentHealth, damage);
+        this.currentHealth = Math.max(0, this.currentHealth - damage);
+        this.onDamage?.(damage);
+
+        // Check for death
+        if (this.currentHealth <= 0) {
+            this.die(cause);
+        }
+    }
+
+    /**
+     * Instant death rule (no input / held too long above the safe zone)
+     * With instant death disabled (assist mode) it is a heavy hit instead
+     */
+    public dieInstantly(cause: DeathCause): void {
+        if (this.instantDeathEnabled) {
+            this.die(cause);
+        } else {
+            this.takeDamage(this.MAX_HIT_WITHOUT_INSTANT_DEATH, cause);
+        }
+    }
+
+    /**
+     * Kill the slime
+     */
+    public die(cause: DeathCause): void {
+        if (this.invulnerable) return;
+
+        this.isDead = true;
+        this.currentHealth = 0;
+        this.deathCause = cause;
+
+        if (GameConfig.debug) {
+            console.log(`[DEATH] ${cause}`);
+        }
+    }
+
+    /**
+     * Reset health (for restart)
+     */
+    public reset(): void {
+        this.currentHealth = this.maxHealth;
+        this.isDead = false;
+        this.totalDamageTaken = 0;
+        this.deathCause = null;
+    }
+}
@@ -0,0 +1,138 @@
+import { GameConfig } from '../config';
+import type { LaunchRating } from './SlimeSim';
+
+/**
+ * LaunchModel - 起跳高度增长模型 (核心成长曲线)
+ *
+ * 落地判定之后，模型根据上一个顶点高度和本次下落的参与度决定下一跳的目标高度。
+ * 参数都在 GameConfig.ground.growth，模型由 growth.model 选择，
+ * 策划可以换用不同的成长曲线 (线性 / 封顶 / 阶梯) 而不用改状态代码。
+ * 速度上下限、最小起跳高度仍由 SlimeSim 统一处理。
+ */
+
+export type GrowthConfig = typeof GameConfig.ground.growth;
+
+export interface LaunchContext {
+    rating: LaunchRating;
+    apexHeight: number;     // Height of the previous apex (px)
+    energyRatio: number;    // 0..1 fast-fall participation (energy × distance × time), PERFECT only
+    pressRatio: number;     // 0..1 share of the fall spent fast-falling
+    streak: number;         // Perfect streak including this landing
+}
+
+export interface LaunchModel {
+    /** Target apex height of the next jump (px) */
+    targetHeight(ctx: LaunchContext, growth: GrowthConfig): number;
+}
+
+/**
+ * NORMAL / FAILED: keep a share of the previous height (shared by all built-in models)
+ * NORMAL keeps more the more the player fast-fell
+ */
+function retainedHeight(ctx: LaunchContext, growth: GrowthConfig): number {
+    if (ctx.rating === 'NORMAL') {
+        return ctx.apexHeight * lerp(growth.normalMultMin, growth.normalMultMax, ctx.pressRatio);
+    }
+    return ctx.apexHeight * growth.failedMult;
+}
+
+/**
+ * Streak boosts the growth potential, not the base result
+ * (a streak without fast-fall energy still decays)
+ */
+function streakMultiplier(ctx: LaunchContext, growth: GrowthConfig): number {
+    return ctx.streak >= growth.streakLength ? growth.streakGrowthMult : 1.0;
+}
+
+/**
+ * Default: growth rate = base + log10 height bonus, lerped from the decay multiplier by energy
+ * At 500px: 1.20x, At 2500px: 1.30x, At 10000px: 1.40x, etc.
+ */
+const exponentialModel: LaunchModel = {
+    targetHeight(ctx, growth) {
+        if (ctx.rating !== 'PERFECT') return retainedHeight(ctx, growth);
+
+        const growthRate = growth.perfectBaseRate + growth.perfectLogRate * Math.log10(1 + ctx.apexHeight / growth.perfectLogRefPx);
+        const maxMult = 1.0 + growthRate * streakMultiplier(ctx, growth);
+        const targetMult = lerp(growth.perfectDecayMult, maxMult, ctx.energyRatio);
+
+        // Additive bonus also scales with energy
+        const bonus = growth.perfectBonusBasePx + ctx.apexHeight * growth.perfectBonusRatio;
+        return ctx.apexHeight * targetMult + bonus * ctx.energyRatio;
+    },
+};
+
+/**
+ * Fixed height gain per PERFECT (slow, predictable climb)
+ */
+const linearModel: LaunchModel = {
+    targetHeight(ctx, growth) {
+        if (ctx.rating !== 'PERFECT') return retainedHeight(ctx, growth);
+
+        const gain = growth.linearGainPx * streakMultiplier(ctx, growth);
+        return lerp(ctx.apexHeight * growth.perfectDecayMult, ctx.apexHeight + gain, ctx.energyRatio);
+    },
+};
+
+/**
+ * Default growth, but never above capHeightM (endless runs level out)
+ */
+const cappedModel: LaunchModel = {
+    targetHeight(ctx, growth) {
+        const capPx = growth.capHeightM * GameConfig.display.pixelsPerMeter;
+        return Math.min(exponentialModel.targetHeight(ctx, growth), Math.max(capPx, ctx.apexHeight));
+    },
+};
+
+/**
+ * Fixed rungs: a well charged PERFECT climbs to the next rung of stepHeightsM
+ * (above the last rung each PERFECT adds the base rate)
+ */
+const stepModel: LaunchModel = {
+    targetHeight(ctx, growth) {
+        if (ctx.rating !== 'PERFECT') return retainedHeight(ctx, growth);
+        if (ctx.energyRatio < growth.stepMinEnergy) return ctx.apexHeight * growth.perfectDecayMult;
+
+        const ppm = GameConfig.display.pixelsPerMeter;
+        // Small tolerance so landing just under a rung does not repeat it
+        const nextRung = growth.stepHeightsM.find((heightM) => heightM * ppm > ctx.apexHeight * 1.02);
+        return nextRung !== undefined
+            ? nextRung * ppm
+            : ctx.apexHeight * (1 + growth.perfectBaseRate * streakMultiplier(ctx, growth));
+    },
+};
+
+const warnedModelIds = new Set<string>();
+
+const LAUNCH_MODELS = new Map<string, LaunchModel>([
+    ['exponential', exponentialModel],
+    ['linear', linearModel],
+    ['capped', cappedModel],
+    ['step', stepModel],
+]);
+
+/**
+ * Add (or replace) a model selectable with GameConfig.ground.growth.model
+ */
+export function registerLaunchModel(id: string, model: LaunchModel): void {
+    LAUNCH_MODELS.set(id, model);
+}
+
+/**
+ * Model selected in the config (unknown ids fall back to the default)
+ */
+export function getLaunchModel(id: string = GameConfig.ground.growth.model): LaunchModel {
+    const model = LAUNCH_MODELS.get(id);
+    if (!model) {
+        if (!warnedModelIds.has(id)) {
+            warnedModelIds.add(id);
+            console.warn(`[LaunchModel] Unknown growth model "${id}", using exponential`);
+        }
+        return exponentialModel;
+    }
+    return model;
+}
+
+function lerp(a: number, b: number, t: number): number {
+    return a + (b - a) * t;
+}
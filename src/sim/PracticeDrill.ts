@@ -0,0 +1,85 @@
+import { GameConfig } from '../config';
+import type { LaunchRating, SimStepEvents, SlimeSim } from './SlimeSim';
+
+/**
+ * PracticeDrill - 固定高度下落练习
+ *
+ * 史莱姆反复从选定高度落地进入蓄力 (ChargingState)，不增长、不会死亡：
+ * 每次起跳后立即停在地面，短暂停顿后再次下落。
+ * 压缩 / 黄区时长随 landingApexHeight 变化，所以高空的时机窗口不用打完整局也能反复练。
+ */
+
+/** Drop heights offered on the start screen (m) */
+export const PRACTICE_DROP_HEIGHTS_M = [50, 300, 1000, 3000] as const;
+
+const REDROP_DELAY = 0.8;       // Pause on the ground between attempts (s)
+const APPROACH_M = 4;           // Visible fall before touchdown (m)
+
+/** Result of one drop */
+export interface PracticeAttempt {
+    rating: LaunchRating | null;        // null = never pressed (settled without a judgment)
+    releaseOffsetMs: number | null;
+}
+
+export class PracticeDrill {
+    public readonly dropHeightM: number;
+    public attempts: number = 0;
+    public perfectCount: number = 0;
+    public readonly releaseOffsetsMs: number[] = [];
+
+    private sim: SlimeSim;
+    private dropping: boolean = false;
+    private redropTimer: number = REDROP_DELAY;
+
+    constructor(sim: SlimeSim, dropHeightM: number) {
+        this.sim = sim;
+        this.dropHeightM = dropHeightM;
+        this.sim.health.invulnerable = true;
+    }
+
+    /** Waiting on the ground for the next drop (input is ignored meanwhile) */
+    public get isParked(): boolean {
+        return !this.dropping;
+    }
+
+    public get perfectRate(): number {
+        return this.attempts > 0 ? this.perfectCount / this.attempts : 0;
+    }
+
+    /**
+     * Called after every sim step
+     * @param dt - Real seconds of this step
+     * @returns The attempt that ended this step, if any
+     */
+    public step(dt: number, events: SimStepEvents): PracticeAttempt | null {
+        if (!this.dropping) {
+            this.redropTimer -= dt;
+            if (this.redropTimer <= 0) {
+                const ppm = GameConfig.display.pixelsPerMeter;
+                this.sim.dropFrom(this.dropHeightM * ppm, APPROACH_M * ppm);
+                this.dropping = true;
+            }
+            return null;
+        }
+
+        // An attempt ends with a launch or when the slime settles back to idle
+        if (!events.launch && this.sim.state !== 'GROUNDED_IDLE') {
+            return null;
+        }
+
+        const attempt: PracticeAttempt = { rating: events.rating, releaseOffsetMs: events.releaseOffsetMs };
+        this.attempts++;
+        if (attempt.rating === 'PERFECT') {
+            this.perfectCount++;
+        }
+        if (attempt.releaseOffsetMs !== null) {
+            this.releaseOffsetsMs.push(Math.round(attempt.releaseOffsetMs));
+        }
+
+        // No growth: the launch is cancelled on the spot
+        this.sim.park();
+        this.dropping = false;
+        this.redropTimer = REDROP_DELAY;
+        return attempt;
+    }
+}
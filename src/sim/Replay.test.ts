@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayPlayer, ReplayRecorder, decodeReplay, encodeReplay } from './Replay';
+import type { Replay } from './Replay';
+import { MAX_INPUT_OFFSET_MS, MIN_INPUT_OFFSET_MS } from '../input/LatencyCalibrator';
+
+function recordSample(): Replay {
+    const recorder = new ReplayRecorder(0xDEADBEEF, { inputOffsetMs: 40 });
+    for (let i = 0; i < 50; i++) {
+        recorder.record({ hold: i % 20 >= 10, swipe: i === 12 ? 1 : i === 31 ? -1 : 0 });
+    }
+    return recorder.finish();
+}
+
+/** Encode a hand-edited copy of the sample */
+function tampered(edit: (replay: any) => void): string {
+    const replay: any = structuredClone(recordSample());
+    edit(replay);
+    return encodeReplay(replay);
+}
+
+describe('decodeReplay', () => {
+    it('round-trips a recording', () => {
+        const replay = recordSample();
+        const decoded = decodeReplay(encodeReplay(replay));
+        expect(decoded).toEqual(replay);
+
+        const player = new ReplayPlayer(decoded!);
+        const swipes: number[] = [];
+        while (!player.isFinished) {
+            const input = player.next()!;
+            if (input.swipe !== 0) swipes.push(input.swipe);
+        }
+        expect(swipes).toEqual([1, -1]);
+    });
+
+    it('rejects garbage and other versions', () => {
+        expect(decodeReplay('not base64 json')).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.version = 2; }))).toBeNull();
+    });
+
+    it('rejects a seed that is not a uint32', () => {
+        expect(decodeReplay(tampered((r) => { r.seed = -1; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.seed = 0x100000000; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.seed = '42'; }))).toBeNull();
+    });
+
+    it('rejects hold runs that do not add up to stepCount', () => {
+        expect(decodeReplay(tampered((r) => { r.stepCount = 1.5; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.stepCount += 1; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.holdRuns.pop(); }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.holdRuns[0] = -r.holdRuns[0]; }))).toBeNull();
+    });
+
+    it('rejects swipes outside the recording or out of order', () => {
+        expect(decodeReplay(tampered((r) => { r.swipes.push([r.stepCount, 1]); }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.swipes.reverse(); }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.swipes[0][1] = 0; }))).toBeNull();
+    });
+
+    it('accepts absent run options and the values a recording can hold', () => {
+        expect(decodeReplay(tampered((r) => { delete r.inputOffsetMs; }))).not.toBeNull();
+        expect(decodeReplay(tampered((r) => {
+            r.assist = { windowScale: 2, noInstantDeath: true };
+            r.difficulty = 'hard';
+            r.configOverlay = { health: { safeZoneMeters: 75 } };
+        }))).not.toBeNull();
+        expect(decodeReplay(tampered((r) => { r.assist = null; }))).not.toBeNull();
+    });
+
+    it('rejects an input offset that is not a finite number in the calibration range', () => {
+        expect(decodeReplay(tampered((r) => { r.inputOffsetMs = '40'; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.inputOffsetMs = MIN_INPUT_OFFSET_MS - 1; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.inputOffsetMs = MAX_INPUT_OFFSET_MS + 1; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.inputOffsetMs = null; }))).toBeNull();
+    });
+
+    it('rejects malformed assist options', () => {
+        expect(decodeReplay(tampered((r) => { r.assist = true; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.assist = { windowScale: 0, noInstantDeath: false }; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.assist = { windowScale: '2', noInstantDeath: false }; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.assist = { windowScale: 2, noInstantDeath: 'yes' }; }))).toBeNull();
+    });
+
+    it('rejects an unknown difficulty', () => {
+        expect(decodeReplay(tampered((r) => { r.difficulty = 'nightmare'; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.difficulty = 3; }))).toBeNull();
+    });
+
+    it('rejects a config overlay that is not a plain object', () => {
+        expect(decodeReplay(tampered((r) => { r.configOverlay = 5; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.configOverlay = [{ ground: {} }]; }))).toBeNull();
+        expect(decodeReplay(tampered((r) => { r.configOverlay = null; }))).toBeNull();
+    });
+});
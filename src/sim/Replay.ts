@@ -0,0 +1,206 @@
+/**
+ * Replay - 整局输入录制与回放
+ *
+ * 物理以固定步长 (SIM_FIXED_DT) 运行，唯一的玩家输入是每一步的 hold 状态和换道方向。
+ * 录下这些输入 + 随机种子，就能在回放中逐步复现整局 (包括死亡的那一刻)。
+ *
+ * 存储格式尽量紧凑：hold 用游程编码，换道只记录发生的步号。
+ */
+
+import type { AssistOptions } from './Assist';
+import type { ConfigOverlay } from '../overlays/ConfigOverlay';
+import type { DifficultyId } from '../overlays/DifficultyPresets';
+import { isDifficultyId } from '../overlays/DifficultyPresets';
+import { MAX_INPUT_OFFSET_MS, MIN_INPUT_OFFSET_MS } from '../input/LatencyCalibrator';
+
+/** Per-step input fed into the fixed-step loop */
+export interface ReplayStepInput {
+    hold: boolean;          // Hold / fast-fall
+    swipe: -1 | 0 | 1;      // Lane switch request this step
+}
+
+export interface Replay {
+    version: 1;
+    seed: number;                       // RNG seed of the recorded run
+    stepCount: number;                  // Total fixed steps recorded
+    holdRuns: number[];                 // Run lengths, alternating released/held (starts released)
+    swipes: Array<[number, -1 | 1]>;    // [stepIndex, direction]
+    inputOffsetMs?: number;             // Input latency compensation of the recording device (0 if absent)
+    assist?: AssistOptions | null;      // Assist mode of the run (off if absent)
+    difficulty?: DifficultyId;          // Difficulty preset of the run (normal if absent)
+    configOverlay?: ConfigOverlay;      // Config overlay the run was played with (factory config if absent)
+}
+
+/** Run settings that affect the simulation, stored alongside the inputs */
+export type ReplayRunOptions = Pick<Replay, 'inputOffsetMs' | 'assist' | 'difficulty' | 'configOverlay'>;
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Records per-step inputs into a compact Replay
+ */
+export class ReplayRecorder {
+    private readonly seed: number;
+    private readonly options: ReplayRunOptions;
+    private stepCount: number = 0;
+    private holdRuns: number[] = [0];
+    private currentHold: boolean = false;
+    private swipes: Array<[number, -1 | 1]> = [];
+
+    constructor(seed: number, options: ReplayRunOptions = {}) {
+        this.seed = seed;
+        this.options = options;
+    }
+
+    public record(input: ReplayStepInput): void {
+        if (input.hold !== this.currentHold) {
+            this.currentHold = input.hold;
+            this.holdRuns.push(0);
+        }
+        this.holdRuns[this.holdRuns.length - 1]++;
+
+        if (input.swipe !== 0) {
+            this.swipes.push([this.stepCount, input.swipe]);
+        }
+
+        this.stepCount++;
+    }
+
+    public finish(): Replay {
+        return {
+            version: REPLAY_VERSION,
+            seed: this.seed,
+            stepCount: this.stepCount,
+            holdRuns: [...this.holdRuns],
+            swipes: this.swipes.map(([step, dir]) => [step, dir] as [number, -1 | 1]),
+            ...this.options,
+        };
+    }
+}
+
+/**
+ * Feeds recorded inputs back one fixed step at a time
+ */
+export class ReplayPlayer {
+    public readonly replay: Replay;
+    private step: number = 0;
+    private runIndex: number = 0;
+    private runRemaining: number;
+    private swipeIndex: number = 0;
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.runRemaining = replay.holdRuns[0] ?? 0;
+    }
+
+    public get isFinished(): boolean {
+        return this.step >= this.replay.stepCount;
+    }
+
+    /**
+     * Input for the next step, or null once the recording is exhausted
+     */
+    public next(): ReplayStepInput | null {
+        if (this.isFinished) return null;
+
+        // Skip empty runs (the first run is empty when the recording starts held)
+        while (this.runRemaining <= 0 && this.runIndex < this.replay.holdRuns.length - 1) {
+            this.runIndex++;
+            this.runRemaining = this.replay.holdRuns[this.runIndex];
+        }
+        const hold = this.runIndex % 2 === 1;
+        this.runRemaining--;
+
+        let swipe: -1 | 0 | 1 = 0;
+        const nextSwipe = this.replay.swipes[this.swipeIndex];
+        if (nextSwipe && nextSwipe[0] === this.step) {
+            swipe = nextSwipe[1];
+            this.swipeIndex++;
+        }
+
+        this.step++;
+        return { hold, swipe };
+    }
+}
+
+/**
+ * Serialize a replay to a copy/paste friendly string (bug tickets, URL ?replay=)
+ */
+export function encodeReplay(replay: Replay): string {
+    return btoa(JSON.stringify(replay));
+}
+
+/**
+ * Parse a replay string, returns null if it is malformed, inconsistent or from another version
+ * (a truncated / edited link falls back to a normal run instead of a desynced playback)
+ */
+export function decodeReplay(encoded: string): Replay | null {
+    try {
+        const data = JSON.parse(atob(encoded.trim()));
+        return isValidReplay(data) ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+    return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Inputs must cover exactly stepCount steps: hold runs sum to it, swipes are in order inside it.
+ * Run options that change the sim (absent = default) must hold values a recording can produce.
+ */
+function isValidReplay(data: unknown): data is Replay {
+    if (!isPlainObject(data) || data.version !== REPLAY_VERSION) return false;
+
+    const { seed, stepCount, holdRuns, swipes } = data;
+    if (!isNonNegativeInteger(seed) || seed > 0xFFFFFFFF || !isNonNegativeInteger(stepCount)) {
+        return false;
+    }
+
+    if (!Array.isArray(holdRuns) || !holdRuns.every(isNonNegativeInteger)) return false;
+    const heldSteps = holdRuns.reduce((sum, run) => sum + run, 0);
+    if (heldSteps !== stepCount) return false;
+
+    if (!Array.isArray(swipes)) return false;
+    let previousStep = -1;
+    for (const swipe of swipes) {
+        if (!Array.isArray(swipe) || swipe.length !== 2) return false;
+        const [step, direction] = swipe;
+        if (!isNonNegativeInteger(step) || step <= previousStep || step >= stepCount) return false;
+        if (direction !== -1 && direction !== 1) return false;
+        previousStep = step;
+    }
+
+    return isValidRunOptions(data);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidRunOptions(data: Record<string, unknown>): boolean {
+    const { inputOffsetMs, assist, difficulty, configOverlay } = data;
+    if (inputOffsetMs !== undefined
+        && (!isFiniteNumber(inputOffsetMs) || inputOffsetMs < MIN_INPUT_OFFSET_MS || inputOffsetMs > MAX_INPUT_OFFSET_MS)) {
+        return false;
+    }
+    if (assist !== undefined && assist !== null
+        && (!isPlainObject(assist) || !isFiniteNumber(assist.windowScale) || assist.windowScale <= 0
+            || typeof assist.noInstantDeath !== 'boolean')) {
+        return false;
+    }
+    if (difficulty !== undefined && !isDifficultyId(difficulty)) {
+        return false;
+    }
+    // Individual fields are checked when the overlay is merged (ConfigOverlay skips unknown / mismatched keys)
+    if (configOverlay !== undefined && !isPlainObject(configOverlay)) {
+        return false;
+    }
+    return true;
+}
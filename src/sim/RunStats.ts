@@ -0,0 +1,122 @@
+import type { LaunchRating } from './SlimeSim';
+import type { DeathCause } from './DeathCause';
+import type { DifficultyId } from '../overlays/DifficultyPresets';
+
+/**
+ * RunStats - 单局统计 (结算面板 / 对局记录)
+ *
+ * 由 GameScene 在每个固定物理步喂数据，结算时 finish() 得到快照。
+ */
+
+export interface RunStats {
+    perfectCount: number;
+    normalCount: number;
+    failedCount: number;
+    longestStreak: number;      // Longest PERFECT streak
+    kills: number;              // Monsters killed by lane-switch slashes
+    killScore: number;          // Score of those kills (per monster type, see monsters.json)
+    damageTaken: number;        // Total HP lost
+    bulletTimeSec: number;      // Real seconds spent in bullet time
+    durationSec: number;        // Real seconds of play
+    deathCause: DeathCause | null;
+    releaseOffsetsMs: number[]; // Every release vs center of the PERFECT window (ms, + = late)
+    assist: boolean;            // Played with assist mode (widened windows)
+    difficulty: DifficultyId;   // Difficulty preset of the run
+}
+
+export interface ReleaseTimingSummary {
+    count: number;
+    meanMs: number;
+    earlyCount: number;
+    lateCount: number;
+    buckets: Array<{ fromMs: number; toMs: number; count: number }>;   // Histogram, open-ended at both ends
+}
+
+/** Histogram bucket edges (ms); the center bucket is "on time" */
+const TIMING_BUCKET_EDGES = [-75, -45, -15, 15, 45, 75];
+
+/**
+ * Early/late breakdown of a run's releases
+ */
+export function summarizeReleaseTiming(offsetsMs: readonly number[]): ReleaseTimingSummary {
+    const edges = [-Infinity, ...TIMING_BUCKET_EDGES, Infinity];
+    const buckets = edges.slice(0, -1).map((fromMs, i) => ({ fromMs, toMs: edges[i + 1], count: 0 }));
+
+    let sum = 0;
+    let earlyCount = 0;
+    let lateCount = 0;
+    for (const offset of offsetsMs) {
+        sum += offset;
+        if (offset < 0) earlyCount++;
+        else if (offset > 0) lateCount++;
+        buckets.find((bucket) => offset >= bucket.fromMs && offset < bucket.toMs)!.count++;
+    }
+
+    return {
+        count: offsetsMs.length,
+        meanMs: offsetsMs.length > 0 ? sum / offsetsMs.length : 0,
+        earlyCount,
+        lateCount,
+        buckets,
+    };
+}
+
+export class RunStatsTracker {
+    private stats: RunStats = {
+        perfectCount: 0,
+        normalCount: 0,
+        failedCount: 0,
+        longestStreak: 0,
+        kills: 0,
+        killScore: 0,
+        damageTaken: 0,
+        bulletTimeSec: 0,
+        durationSec: 0,
+        deathCause: null,
+        releaseOffsetsMs: [],
+        assist: false,
+        difficulty: 'normal',
+    };
+
+    constructor(assist: boolean = false, difficulty: DifficultyId = 'normal') {
+        this.stats.assist = assist;
+        this.stats.difficulty = difficulty;
+    }
+
+    /**
+     * Advance run time by one fixed step (real seconds)
+     */
+    public tick(realDt: number, isBulletTime: boolean): void {
+        this.stats.durationSec += realDt;
+        if (isBulletTime) {
+            this.stats.bulletTimeSec += realDt;
+        }
+    }
+
+    public recordLanding(rating: LaunchRating, perfectStreak: number): void {
+        if (rating === 'PERFECT') {
+            this.stats.perfectCount++;
+        } else if (rating === 'NORMAL') {
+            this.stats.normalCount++;
+        } else {
+            this.stats.failedCount++;
+        }
+        this.stats.longestStreak = Math.max(this.stats.longestStreak, perfectStreak);
+    }
+
+    public recordReleaseOffset(offsetMs: number): void {
+        this.stats.releaseOffsetsMs.push(Math.round(offsetMs));
+    }
+
+    public recordKills(count: number, score: number = count): void {
+        this.stats.kills += count;
+        this.stats.killScore += score;
+    }
+
+    /**
+     * Final snapshot of the run
+     */
+    public finish(damageTaken: number, deathCause: DeathCause | null): RunStats {
+        return { ...this.stats, damageTaken, deathCause, releaseOffsetsMs: [...this.stats.releaseOffsetsMs] };
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * SeededRandom - 可复现的随机数服务 (Mulberry32)
+ *
+ * 同一个种子 + 同样的调用顺序 = 完全相同的随机序列。
+ * 用于怪物导演、怪物 AI 和蓄力抖动，保证同一局可以被复现 (Bug 报告 / 每日挑战 / 回放)。
+ * 不同子系统通过 fork() 拿到独立的子流，互不干扰调用顺序。
+ */
+export class SeededRandom {
+    public readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Create a fresh seed for a new run (non-deterministic source)
+     */
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0x100000000) >>> 0;
+    }
+
+    /**
+     * Float in [0, 1) - drop-in replacement for Math.random()
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Integer in [min, max] (inclusive) - same contract as Phaser.Math.Between
+     */
+    public between(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1) + min);
+    }
+
+    /**
+     * Float in [min, max) - same contract as Phaser.Math.FloatBetween
+     */
+    public floatBetween(min: number, max: number): number {
+        return this.next() * (max - min) + min;
+    }
+
+    /**
+     * Random element of a non-empty array
+     */
+    public pick<T>(items: readonly T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    /**
+     * Independent child stream (deterministic given this stream's state)
+     */
+    public fork(): SeededRandom {
+        return new SeededRandom(Math.floor(this.next() * 0x100000000));
+    }
+}
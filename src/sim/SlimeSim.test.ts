@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { GameConfig } from '../config';
+import { applyConfigOverlays } from '../overlays/ConfigOverlay';
+import { DeathCause } from './DeathCause';
+import { SeededRandom } from './SeededRandom';
+import { SIM_FIXED_DT, SlimeSim } from './SlimeSim';
+import type { SimGround, SimStepEvents } from './SlimeSim';
+
+/**
+ * SlimeSim headless rules: yellow zone, input latency compensation, hold lockout, fixed-step determinism
+ */
+
+const GROUND: SimGround = { y: 1000, getSurfaceOffsetAt: () => 0 };
+const PPM = GameConfig.display.pixelsPerMeter;
+const MAX_STEPS = 120 * 20;     // 20 sim seconds - every scenario settles well before
+
+/**
+ * Fresh sim dropped from heightM, holding until it touches down (charging on the step after)
+ */
+function landFrom(heightM: number): SlimeSim {
+    const sim = new SlimeSim(GROUND, 200, 0);
+    sim.dropFrom(heightM * PPM, 4 * PPM);
+    for (let i = 0; i < MAX_STEPS && sim.state !== 'GROUND_CHARGING'; i++) {
+        sim.step(SIM_FIXED_DT, { hold: true });
+    }
+    expect(sim.state).toBe('GROUND_CHARGING');
+    return sim;
+}
+
+/**
+ * Keep stepping with the same input until the predicate holds (returns the events of that step)
+ */
+function stepUntil(sim: SlimeSim, hold: boolean, done: (events: SimStepEvents) => boolean): SimStepEvents {
+    for (let i = 0; i < MAX_STEPS; i++) {
+        const events = sim.step(SIM_FIXED_DT, { hold });
+        if (done(events)) return events;
+    }
+    throw new Error('Sim did not reach the expected state');
+}
+
+afterEach(() => {
+    applyConfigOverlays();
+});
+
+describe('yellow zone', () => {
+    it('opens where the PERFECT window starts', () => {
+        const sim = landFrom(50);
+        stepUntil(sim, true, () => sim.isInYellowZone);
+
+        expect(sim.yellowOpenedAt).not.toBeNull();
+        expect(sim.getPerfectWindow().start).toBe(sim.yellowOpenedAt);
+        expect(sim.chargeElapsed).toBeGreaterThan(0);
+    });
+
+    it('rates a release inside the yellow zone PERFECT', () => {
+        const sim = landFrom(50);
+        stepUntil(sim, true, () => sim.isInYellowZone);
+
+        const events = sim.step(SIM_FIXED_DT, { hold: false });
+        expect(events.launch?.rating).toBe('PERFECT');
+        expect(sim.state).toBe('AIRBORNE');
+    });
+
+    it('rates a release before the yellow zone NORMAL', () => {
+        const sim = landFrom(50);
+        sim.step(SIM_FIXED_DT, { hold: true });
+        expect(sim.chargeElapsed).toBeLessThan(sim.getPerfectWindow().start);
+
+        const events = sim.step(SIM_FIXED_DT, { hold: false });
+        expect(events.launch?.rating).toBe('NORMAL');
+    });
+
+    it('scales with the assist timing window', () => {
+        const sim = landFrom(300);
+        const base = sim.getYellowDurationEff();
+        sim.timingWindowScale = 2;
+        expect(sim.getYellowDurationEff()).toBeCloseTo(base * 2);
+    });
+});
+
+describe('input latency compensation', () => {
+    /**
+     * Hold through the PERFECT window, release on the first step judged just after its end (without compensation)
+     */
+    function releaseJustLate(inputOffsetSec: number): SimStepEvents {
+        const sim = landFrom(50);
+        sim.inputOffsetSec = inputOffsetSec;
+        stepUntil(sim, true, () => sim.reachedPeak && sim.chargeElapsed + SIM_FIXED_DT > sim.getPerfectWindow().end + 0.01);
+        expect(sim.holdLockout).toBe(false);
+        return sim.step(SIM_FIXED_DT, { hold: false });
+    }
+
+    it('rates a release just after the window NORMAL without an offset', () => {
+        const events = releaseJustLate(0);
+        expect(events.launch?.rating).toBe('NORMAL');
+        expect(events.releaseOffsetMs).toBeGreaterThan(0);
+    });
+
+    it('judges releases earlier by a positive offset, turning a just-late release PERFECT', () => {
+        const events = releaseJustLate(0.03);
+        expect(events.launch?.rating).toBe('PERFECT');
+    });
+});
+
+describe('hold lockout', () => {
+    it('is fatal above the safe zone', () => {
+        const sim = landFrom(300);
+        const events = stepUntil(sim, true, () => sim.state === 'GROUNDED_IDLE');
+
+        expect(sim.holdLockout).toBe(true);
+        expect(events.rating).toBe('FAILED');
+        expect(sim.health.isDead).toBe(true);
+        expect(sim.health.deathCause).toBe(DeathCause.HELD_TOO_LONG);
+    });
+
+    it('only settles below the safe zone', () => {
+        const sim = landFrom(50);
+        stepUntil(sim, true, () => sim.state === 'GROUNDED_IDLE');
+
+        expect(sim.holdLockout).toBe(true);
+        expect(sim.health.isDead).toBe(false);
+        expect(sim.perfectStreak).toBe(0);
+    });
+
+    it('follows the configured safe zone (difficulty overlays)', () => {
+        applyConfigOverlays({ health: { safeZoneMeters: 40 } });
+        const sim = landFrom(50);
+        stepUntil(sim, true, () => sim.state === 'GROUNDED_IDLE');
+
+        expect(sim.health.deathCause).toBe(DeathCause.HELD_TOO_LONG);
+    });
+});
+
+describe('fixed-step determinism', () => {
+    /**
+     * Play a seeded input sequence (random hold / release runs) and trace the sim
+     */
+    function run(seed: number): string[] {
+        const rng = new SeededRandom(seed);
+        const sim = new SlimeSim(GROUND, 200, GROUND.y);
+        const trace: string[] = [];
+
+        let hold = false;
+        let runLeft = 0;
+        for (let i = 0; i < 120 * 30; i++) {
+            if (runLeft <= 0) {
+                hold = !hold;
+                runLeft = rng.between(1, 90);
+            }
+            runLeft--;
+
+            const events = sim.step(SIM_FIXED_DT, { hold });
+            if (events.rating || events.landed) {
+                trace.push(`${i}:${sim.state}:${events.rating}:${sim.y.toFixed(6)}:${sim.vy.toFixed(6)}`);
+            }
+        }
+        trace.push(`end:${sim.state}:${sim.y}:${sim.vy}:${sim.perfectStreak}:${sim.health.currentHealth}`);
+        return trace;
+    }
+
+    it('replays the same seed step for step', () => {
+        const first = run(12345);
+        expect(first.length).toBeGreaterThan(1);
+        expect(run(12345)).toEqual(first);
+    });
+
+    it('diverges for a different seed', () => {
+        expect(run(54321)).not.toEqual(run(12345));
+    });
+});
@@ -0,0 +1,947 @@
+/**
+ * SlimeSim - 史莱姆物理模拟核心 (无 Phaser 依赖)
+ *
+ * 纯 TypeScript 的固定步长模拟：空中控制、落地压缩、黄区判定、按太久锁定与起跳增长。
+ * Phaser 侧的 Slime 和各个状态类只负责渲染与特效，读取这里的状态并响应 step() 返回的事件。
+ * 同一套玩法因此可以在 Node 中无画布运行 (单元测试、回放校验)。
+ */
+
+import { GameConfig } from '../config';
+import { HealthModel } from './HealthModel';
+import { DeathCause } from './DeathCause';
+import { getLaunchModel } from './LaunchModel';
+
+export type SlimeState = 'GROUNDED_IDLE' | 'AIRBORNE' | 'GROUND_CHARGING';
+export type LaunchRating = 'PERFECT' | 'NORMAL' | 'FAILED';
+
+/** Fixed physics step (120 Hz) - GameScene drives the sim at this rate */
+export const SIM_FIXED_DT = 1 / 120;
+
+/** Compression ratio (current / target) at which the yellow (PERFECT) window opens */
+export const YELLOW_ZONE_PROXIMITY = 0.9;
+
+/**
+ * Minimal ground surface the sim needs (Ground satisfies this structurally).
+ * Headless runs can pass a flat ground: { y, getSurfaceOffsetAt: () => 0 }
+ */
+export interface SimGround {
+    y: number;
+    getSurfaceOffsetAt(x: number): number;
+}
+
+/** Per-step player input */
+export interface SimInput {
+    hold: boolean;      // Hold / fast-fall (touch hold or SPACE)
+}
+
+/** Result of a successful launch off the ground */
+export interface LaunchResult {
+    rating: LaunchRating;
+    streak: number;                 // perfectStreak after this launch
+    targetHeight: number;           // Target apex height (px)
+    launchVelocity: number;         // Launch speed (px/s, positive = up)
+    predictedApexHeight: number;    // Predicted apex height (px)
+    autoBulletTime: boolean;        // PERFECT and predicted apex > 50m
+}
+
+/** Events produced by a single step (consumed by the presentation layer) */
+export interface SimStepEvents {
+    landed: boolean;                        // Ground contact this step
+    reachedPeak: boolean;                   // Compression peak reached this step
+    apex: boolean;                          // Passed the apex this step (vy crossed 0)
+    rating: LaunchRating | null;            // Judgment to show (launch or failure)
+    launch: LaunchResult | null;            // Launch result (null if no launch)
+    autoBulletTimeApexM: number | null;     // Auto bullet time should start (apex height in meters)
+    autoBulletTimeEnd: boolean;             // Auto bullet time should end (falling started)
+    releaseOffsetMs: number | null;         // Release vs center of the PERFECT window (ms, + = late)
+}
+
+export class SlimeSim {
+    public x: number;
+    public y: number;
+    public vy: number = 0; // +down, -up
+    public radius: number = GameConfig.display.playerCollisionRadius;  // Collision radius (separate from display size)
+
+    public state: SlimeState = 'GROUNDED_IDLE';
+    public ground: SimGround;
+    public health: HealthModel;
+
+    // Air control
+    public userAccel: number = 0; // extra +down accel
+    public holdTime: number = 0;
+    public prevSpaceDown: boolean = false;
+    public fastFallEnergy: number = 0;       // Energy accumulated during fast fall
+    public fastFallTime: number = 0;         // Time spent holding space during active descent (for energy multiplier)
+
+    // Distance-based tracking (prevent "last second charge" exploit)
+    public fallDistanceSinceApex: number = 0;     // Total fall distance from apex
+    public fastFallDistance: number = 0;          // Distance fallen while holding space
+    public prevYForFall: number = 0;              // Previous Y for calculating dy
+    public landingFallDistance: number = 0;       // Snapshot: total fall distance at landing
+    public landingFastFallDistance: number = 0;   // Snapshot: fast-fall distance at landing
+
+    // Ground/compression (physics)
+    public impactSpeed: number = 0;
+    public targetCompression: number = 0;
+    public currentCompression: number = 0;
+    public reachedPeak: boolean = false;
+    public chargeEfficiency: number = 1.0;
+    public overflow: number = 0;
+
+    // Contact bookkeeping
+    public contactHasInput: boolean = false;
+
+    // Peak / timing controls
+    public postPeakHoldTime: number = 0; // how long we held after reaching peak
+    public holdLockout: boolean = false; // if true: releasing will NOT launch (failure)
+
+    // Apex tracking (controlled growth)
+    public prevVyForApex: number = 0;
+    public lastApexHeight: number = 0;
+
+    // Difficulty snapshot (fixed at landing, avoids frame-to-frame jitter)
+    public landingApexHeight: number = 0;
+    public landingDifficulty: number = 1;
+
+    // Yellow zone tracking for Perfect timing
+    public isInYellowZone: boolean = false;
+    public yellowZoneStartTime: number = 0;  // Time spent in yellow zone
+
+    // Release timing (sim seconds since touchdown)
+    public chargeElapsed: number = 0;
+    public yellowOpenedAt: number | null = null;
+    public peakReachedAt: number | null = null;
+
+    // Streak tracking
+    public perfectStreak: number = 0;        // Consecutive perfect count
+
+    // Auto Bullet Time at Apex (for PERFECT bounces > 50m)
+    public predictedApexHeight: number = 0;     // Predicted apex height in pixels (calculated at launch)
+    public launchY: number = 0;                 // Y position at launch (for calculating progress)
+    public autoBTEligible: boolean = false;     // Whether this ascent qualifies for auto bullet time
+    public autoBTActivated: boolean = false;    // Whether auto bullet time has been triggered this ascent
+
+    // Input latency compensation (s): releases are judged this much earlier than they arrive.
+    // Fixed for a whole run (recorded in the replay) so playback judges releases the same way.
+    public inputOffsetSec: number = 0;
+
+    // Assist mode: multiplier for the yellow / sweet grace / fail hold windows (fixed for a run)
+    public timingWindowScale: number = 1;
+
+    // Practice drop: fall height the next touchdown is judged as (px), null for normal play
+    private pendingDropHeight: number | null = null;
+
+    constructor(ground: SimGround, x: number, y: number, health: HealthModel = new HealthModel()) {
+        this.ground = ground;
+        this.x = x;
+        this.y = y;
+        this.health = health;
+
+        // Initial velocity (don't override y position - use the passed in value)
+        this.vy = 0;
+        this.prevVyForApex = this.vy;
+        this.prevYForFall = y;  // Initialize for distance tracking
+
+        // Start grounded so player doesn't fall on game start
+        this.enterState('GROUNDED_IDLE');
+    }
+
+    /**
+     * Advance the simulation by one fixed step
+     * @param dt Simulated seconds (already scaled by bullet time)
+     * @param input Player input for this step
+     */
+    public step(dt: number, input: SimInput): SimStepEvents {
+        const events: SimStepEvents = {
+            landed: false,
+            reachedPeak: false,
+            apex: false,
+            rating: null,
+            launch: null,
+            autoBulletTimeApexM: null,
+            autoBulletTimeEnd: false,
+            releaseOffsetMs: null,
+        };
+
+        const isSpaceDown = input.hold;
+        const justPressed = isSpaceDown && !this.prevSpaceDown;
+        const justReleased = !isSpaceDown && this.prevSpaceDown;
+        this.prevSpaceDown = isSpaceDown;
+
+        switch (this.state) {
+            case 'GROUNDED_IDLE':
+                this.stepIdle(dt, justPressed);
+                break;
+            case 'AIRBORNE':
+                this.stepAirborne(dt, isSpaceDown, justPressed, events);
+                break;
+            case 'GROUND_CHARGING':
+                this.stepCharging(dt, isSpaceDown, justReleased, events);
+                break;
+        }
+
+        // Hard clamp: never allow embedding when not airborne
+        // This failsafe ensures player center never goes below ground level
+        if (this.state !== 'AIRBORNE') {
+            const gy = this.getGroundY();
+            if (this.y > gy) this.y = gy;
+        }
+
+        return events;
+    }
+
+    /**
+     * Practice drill: drop onto the ground as if falling from heightPx
+     * The slime appears approachPx above the ground at the matching impact speed; the touchdown
+     * snapshot (difficulty, fast-fall ratio) is taken from heightPx, so the compress / yellow
+     * timing is exactly the one of a real landing from that height.
+     */
+    public dropFrom(heightPx: number, approachPx: number): void {
+        this.y = this.getGroundY() - approachPx;
+        this.transitionTo('AIRBORNE');
+
+        const terminalNormal = (GameConfig.air as any).terminalFallSpeed ?? 6000;
+        this.vy = Math.min(Math.sqrt(2 * GameConfig.gravity * heightPx), terminalNormal);
+        this.prevVyForApex = this.vy;
+        this.lastApexHeight = heightPx;
+        this.userAccel = 0;
+        this.holdTime = 0;
+        this.autoBTEligible = false;
+        this.autoBTActivated = false;
+        this.pendingDropHeight = heightPx;
+    }
+
+    /**
+     * Practice drill: stop on the ground between drops (cancels a launch in progress)
+     */
+    public park(): void {
+        this.transitionTo('GROUNDED_IDLE');
+        this.autoBTEligible = false;
+        this.autoBTActivated = false;
+        this.pendingDropHeight = null;
+    }
+
+    public getGroundY(): number {
+        // groundLevel - radius = bottom of sprite touches ground
+        // + playerYOffset = configurable offset (negative = higher, positive = lower)
+        // + surfaceOffset = dynamic ground deformation at this X position
+        const surfaceOffset = this.ground.getSurfaceOffsetAt(this.x);
+        return this.ground.y - this.radius + GameConfig.display.playerYOffset + surfaceOffset;
+    }
+
+    public approach(current: number, target: number, dt: number, tau: number): number {
+        if (tau <= 0) return target;
+        const alpha = 1 - Math.exp(-dt / tau);
+        return current + (target - current) * alpha;
+    }
+
+    // ------------------------------------------------------------
+    // State transitions
+    // ------------------------------------------------------------
+    private transitionTo(newState: SlimeState) {
+        this.enterState(newState);
+    }
+
+    private enterState(newState: SlimeState) {
+        this.state = newState;
+
+        if (newState === 'GROUNDED_IDLE') {
+            this.vy = 0;
+            this.y = this.getGroundY();
+            this.currentCompression = 0;
+        } else if (newState === 'AIRBORNE') {
+            // Reset distance tracking for new airborne phase
+            this.fallDistanceSinceApex = 0;
+            this.fastFallDistance = 0;
+            this.prevYForFall = this.y;
+
+            // Reset energy tracking
+            this.fastFallEnergy = 0;
+            this.fastFallTime = 0;
+        } else {
+            this.currentCompression = 0;
+            this.reachedPeak = false;
+            this.chargeEfficiency = 1.0;
+
+            this.postPeakHoldTime = 0;
+            this.holdLockout = false;
+
+            this.chargeElapsed = 0;
+            this.yellowOpenedAt = null;
+            this.peakReachedAt = null;
+
+            // contactHasInput is picked up by the first charging step (if holding on impact)
+            this.contactHasInput = false;
+        }
+    }
+
+    // ------------------------------------------------------------
+    // GROUNDED_IDLE
+    // ------------------------------------------------------------
+    private stepIdle(dt: number, justPressed: boolean): void {
+        const groundYi = this.getGroundY();
+
+        this.y = groundYi;
+        this.vy = 0;
+
+        // Ensure fully flat over time
+        this.currentCompression = this.approach(this.currentCompression, 0, dt, 0.08);
+
+        if (justPressed) {
+            this.transitionTo('AIRBORNE');
+
+            // Jump upward robustly
+            this.vy = -Math.abs(GameConfig.ground.baseLaunchVelocity);
+
+            // Lift slightly to avoid re-contact
+            this.y = groundYi - 0.5;
+            this.prevVyForApex = this.vy;
+
+            this.userAccel = 0;
+            this.holdTime = 0;
+        }
+    }
+
+    // ------------------------------------------------------------
+    // AIRBORNE
+    // ------------------------------------------------------------
+    private stepAirborne(dt: number, isSpaceDown: boolean, justPressed: boolean, events: SimStepEvents): void {
+        // Reset fastFallDistance on re-press (prevents multi-tap accumulation exploit)
+        if (justPressed) {
+            this.fastFallDistance = 0;
+        }
+
+        // 1) Air Control
+        if (isSpaceDown) {
+            this.holdTime += dt;
+            const targetA = Math.min(
+                GameConfig.air.baseFastFallAccel + GameConfig.air.fastFallRamp * this.holdTime,
+                GameConfig.air.maxFastFallAccel
+            );
+            // Faster approach (0.05 instead of 0.1) for snappier response
+            this.userAccel = this.approach(this.userAccel, targetA, dt, 0.05);
+        } else {
+            this.holdTime = 0;
+            this.userAccel = this.approach(this.userAccel, 0, dt, GameConfig.air.releaseDecay);
+        }
+
+        // 2) Integrate
+        const ay = GameConfig.gravity + this.userAccel;
+        this.vy += ay * dt;
+
+        // Terminal velocity clamp (px/s)
+        // Two-Tier System: Higher limit when "forcing" it down, lower limit for natural fall.
+        // This prevents "infinite energy glitch" by capping the v term in (F * v * dt).
+        const terminalNormal = (GameConfig.air as any).terminalFallSpeed ?? 6000;
+        const terminalFast = (GameConfig.air as any).terminalFastFallSpeed ?? 9000;
+
+        const terminalVy = isSpaceDown ? terminalFast : terminalNormal;
+
+        if (this.vy > terminalVy) {
+            this.vy = terminalVy;
+        }
+
+        this.y += this.vy * dt;
+
+        // ===== ACCUMULATE FAST-FALL ENERGY & TIME =====
+        // Work = Force * velocity * time
+        // FastFallTime = Duration of active input during descent
+        // CRITICAL: Only accumulate while actively holding button (isSpaceDown)
+        // Post-release decay tail (userAccel > 0 but !isSpaceDown) must NOT inflate energy
+        // Energy calculation uses CAPPED values to prevent extreme physics from breaking balance
+        if (isSpaceDown && this.vy > 0 && this.userAccel > 0) {
+            const vEnergyCap = (GameConfig.air as any).energyVyCap ?? 6000;
+            const aEnergyCap = (GameConfig.air as any).energyAccelCap ?? 6000;
+
+            const vEff = Math.min(this.vy, vEnergyCap);
+            const aEff = Math.min(this.userAccel, aEnergyCap);
+
+            this.fastFallEnergy += aEff * vEff * dt;
+            this.fastFallTime += dt;
+        }
+
+        // ===== AUTO BULLET TIME AT APEX (from 80% of predicted apex) =====
+        // Check during ascent only (vy < 0 means going up)
+        if (this.vy < 0 && this.autoBTEligible && !this.autoBTActivated) {
+            // Calculate current height progress toward predicted apex
+            const currentHeight = this.launchY - this.y;
+            const progress = currentHeight / Math.max(1, this.predictedApexHeight);
+
+            if (progress >= 0.80) {
+                this.autoBTActivated = true;
+                events.autoBulletTimeApexM = this.predictedApexHeight / (GameConfig.display.pixelsPerMeter ?? 50);
+            }
+        }
+
+        // Deactivate when falling starts (reached apex)
+        if (this.vy > 0 && this.autoBTActivated) {
+            events.autoBulletTimeEnd = true;
+            this.autoBTActivated = false;
+            this.autoBTEligible = false; // Reset for next bounce
+        }
+
+        // 3) Apex Detection - reset fastFallEnergy at apex
+        if (this.prevVyForApex < 0 && this.vy >= 0) {
+            const groundYi = this.getGroundY();
+            this.lastApexHeight = Math.max(0, groundYi - this.y);
+            this.fastFallEnergy = 0;  // Reset energy at apex
+            this.fastFallTime = 0;    // Reset timer at apex
+
+            // Reset distance tracking at apex (new descent begins)
+            this.fallDistanceSinceApex = 0;
+            this.fastFallDistance = 0;
+            this.prevYForFall = this.y;
+
+            events.apex = true;
+        }
+        this.prevVyForApex = this.vy;
+
+        // ===== ACCUMULATE DISTANCE (only during descent) =====
+        const dy = this.y - this.prevYForFall;
+        if (dy > 0) {
+            this.fallDistanceSinceApex += dy;
+            if (isSpaceDown) {
+                this.fastFallDistance += dy;
+            }
+        }
+        this.prevYForFall = this.y;
+
+        // 4) Ground Contact
+        const groundYi = this.getGroundY();
+        if (this.y >= groundYi) {
+            this.y = groundYi;
+
+            this.impactSpeed = Math.max(0, this.vy);
+
+            // Snapshot distance tracking for energy calculation
+            this.landingFallDistance = this.fallDistanceSinceApex;
+            this.landingFastFallDistance = this.fastFallDistance;
+            if (this.pendingDropHeight !== null) {
+                // Practice drop: judged as a full fast-fall from the drop height
+                this.landingFallDistance = this.pendingDropHeight;
+                this.landingFastFallDistance = this.pendingDropHeight;
+                this.pendingDropHeight = null;
+            }
+
+            // Reset air stats
+            this.userAccel = 0;
+            this.holdTime = 0;
+
+            // Setup collision params for charging state
+            const rawX = GameConfig.ground.impactScale * (this.impactSpeed * this.impactSpeed);
+            this.targetCompression = Math.min(rawX, GameConfig.ground.maxDepth);
+            this.overflow = Math.max(0, rawX - GameConfig.ground.maxDepth);
+
+            this.vy = 0;
+
+            // Calculate difficulty snapshot - use actual fall distance if available
+            const actualFallDist = this.landingFallDistance > 0 ? this.landingFallDistance : this.lastApexHeight;
+            this.landingApexHeight = actualFallDist;
+            const g = GameConfig.ground as any;
+            const Href = (g.difficultyRefHeight ?? 5000) as number;
+            this.landingDifficulty = Math.max(1, this.landingApexHeight / Math.max(1, Href));
+
+            events.landed = true;
+            this.transitionTo('GROUND_CHARGING');
+        }
+    }
+
+    // ------------------------------------------------------------
+    // GROUND_CHARGING
+    // ------------------------------------------------------------
+    private stepCharging(dt: number, isSpaceDown: boolean, justReleased: boolean, events: SimStepEvents): void {
+        const groundYi = this.getGroundY();
+        const ground = GameConfig.ground as any;
+
+        if (isSpaceDown) this.contactHasInput = true;
+        this.chargeElapsed += dt;
+
+        // ===== DYNAMIC DIFFICULTY PARAMETERS =====
+        const diff = this.landingDifficulty ?? 1;
+
+        // Sweet Window shrinks with difficulty
+        const sweetGraceEff = this.getSweetGraceEff();
+
+        // Fail Hold Time shrinks with difficulty
+        const fail0 = (ground.failHoldTime0 ?? ground.failHoldTime ?? 0.12) as number;
+        const failMin = (ground.failHoldTimeMin ?? 0.03) as number;
+        const failHoldEff = clamp(fail0 / diff, failMin, fail0) * this.timingWindowScale;
+
+        // Over Hold Penalty increases with difficulty
+        const accelK0 = (ground.overHoldAccelK0 ?? ground.overHoldAccelK ?? 8.0) as number;
+        const accelKGain = (ground.overHoldAccelKGain ?? 6.0) as number;
+        const accelKeff = accelK0 + accelKGain * (diff - 1);
+
+        // Phase 1: Compress to Peak
+        if (!this.reachedPeak) {
+            this.currentCompression = this.approach(
+                this.currentCompression,
+                this.targetCompression,
+                dt,
+                this.getCompressTimeEff()
+            );
+
+            // ===== YELLOW ZONE TRACKING =====
+            // Yellow zone = proximity > 0.9 (high compression ratio)
+            const proximity = this.currentCompression / Math.max(1e-6, this.targetCompression);
+
+            // Check if entering yellow zone
+            if (proximity > YELLOW_ZONE_PROXIMITY && !this.isInYellowZone) {
+                this.isInYellowZone = true;
+                this.yellowZoneStartTime = 0;
+                this.yellowOpenedAt = this.chargeElapsed;
+            }
+
+            // Track time in yellow zone
+            if (this.isInYellowZone) {
+                this.yellowZoneStartTime += dt;
+
+                // If in yellow zone too long, auto-transition to peak
+                if (this.yellowZoneStartTime >= this.getYellowDurationEff()) {
+                    this.markPeakReached(events);
+                }
+            }
+
+            const eps = (ground.peakEps ?? 1.0) as number;
+            if (Math.abs(this.targetCompression - this.currentCompression) <= eps && !this.reachedPeak) {
+                this.markPeakReached(events);
+            }
+
+            // Early Release
+            if (justReleased && this.contactHasInput) {
+                this.tryLaunchActiveOrSettle(events);
+            }
+            return;
+        }
+
+        // Phase 2: At Peak
+        // Release
+        if (justReleased && this.contactHasInput) {
+            this.tryLaunchActiveOrSettle(events);
+            return;
+        }
+
+        // Case: No Input => Absorb (FAILURE - reset combo)
+        if (!this.contactHasInput && !isSpaceDown) {
+            const absorbTau = (ground.absorbRelaxTime ?? 0.12) as number;
+            this.currentCompression = this.approach(this.currentCompression, 0, dt, absorbTau);
+
+            const settleEps = (ground.settleEps ?? 0.5) as number;
+            if (this.currentCompression <= settleEps) {
+                // ===== DEATH CHECK: No input above the safe zone (100m) = instant death =====
+                const PIXELS_PER_METER = GameConfig.display.pixelsPerMeter ?? 50;
+
+                if (this.health.isAboveSafeZone(this.landingApexHeight)) {
+                    // Player didn't participate at all - instant death
+                    this.health.dieInstantly(DeathCause.NO_INPUT);
+                    events.rating = 'FAILED';
+                    if (GameConfig.debug) {
+                        console.log(`[DEATH] No input fall from ${(this.landingApexHeight / PIXELS_PER_METER).toFixed(0)}m`);
+                    }
+                }
+
+                this.perfectStreak = 0;  // Reset combo on failure
+                this.transitionTo('GROUNDED_IDLE');
+            }
+            return;
+        }
+
+        // Case: Holding after Peak
+        if (isSpaceDown) {
+            const settleEps = (ground.settleEps ?? 0.5) as number;
+
+            // Use DYNAMIC sweet window
+            this.postPeakHoldTime += dt;
+
+            if (this.postPeakHoldTime <= sweetGraceEff) {
+                this.currentCompression = this.targetCompression;
+                this.chargeEfficiency = 1.0;
+
+                return;
+            }
+
+            // Failure Ramp with DYNAMIC penalty
+            const over = this.postPeakHoldTime - sweetGraceEff;
+            const accelT = (ground.overHoldAccelTime ?? 0.25) as number;
+            const accel = 1 + accelKeff * (1 - Math.exp(-over / Math.max(1e-6, accelT)));
+
+            // Use DYNAMIC fail time
+            if (over >= failHoldEff) this.holdLockout = true;
+
+            const relaxTau = Math.max(1e-4, GameConfig.ground.relaxTime / accel);
+            const fatigueTau = Math.max(1e-4, GameConfig.ground.fatigueTime / accel);
+
+            this.currentCompression = this.approach(this.currentCompression, 0, dt, relaxTau);
+            this.chargeEfficiency = this.approach(this.chargeEfficiency, 0, dt, fatigueTau);
+
+            this.y = groundYi + this.currentCompression;
+
+            // Strict Fatigue Exit (FAILURE - reset combo)
+            // Check for death from missed bounce timing (holdLockout above 100m)
+            if (this.currentCompression <= settleEps) {
+                if (this.checkMissedBounceDeath(events)) {
+                    return; // Death occurred, already transitioned
+                }
+                this.perfectStreak = 0;  // Reset combo on failure
+                this.transitionTo('GROUNDED_IDLE');
+            }
+            return;
+        }
+
+        // Fallthrough: Relax slowly if not holding (FAILURE - reset combo)
+        const idleRelaxTau = (ground.idleRelaxAfterPeak ?? 0.18) as number;
+        this.currentCompression = this.approach(this.currentCompression, 0, dt, idleRelaxTau);
+        this.y = groundYi + this.currentCompression;
+
+        const settleEps = (ground.settleEps ?? 0.5) as number;
+        if (this.currentCompression <= settleEps) {
+            this.perfectStreak = 0;  // Reset combo on failure
+            this.transitionTo('GROUNDED_IDLE');
+        }
+    }
+
+    private markPeakReached(events: SimStepEvents): void {
+        this.reachedPeak = true;
+        this.postPeakHoldTime = 0;
+        this.holdLockout = false;
+        this.chargeEfficiency = 1.0;
+        this.currentCompression = this.targetCompression;
+        this.isInYellowZone = false; // Exited yellow zone by reaching peak
+        this.peakReachedAt = this.chargeElapsed;
+        events.reachedPeak = true;
+    }
+
+    /**
+     * Compression time constant for the current landing
+     * Higher falls = longer time to reach yellow (more reaction time)
+     * compressTimeEff = compressTime0 * (1 + compressLogScale * log2(1 + apex/Href))
+     */
+    public getCompressTimeEff(): number {
+        const ground = GameConfig.ground as any;
+        const compressTime0 = (ground.compressTime ?? 0.12) as number;
+        const compressLogScale = (ground.compressLogScale ?? 0.5) as number;
+        const Href = (ground.difficultyRefHeight ?? 5000) as number;
+
+        const logFactor = 1 + compressLogScale * Math.log2(1 + this.landingApexHeight / Math.max(1, Href));
+        return compressTime0 * logFactor;
+    }
+
+    /**
+     * PERFECT window of the current landing in sim seconds since touchdown
+     *
+     * Window = yellow zone + sweet grace after the peak. Times not reached yet
+     * (early release) are predicted from the compression curve the same way stepCharging() runs it.
+     */
+    public getPerfectWindow(): { start: number; end: number } {
+        const ground = GameConfig.ground as any;
+        const tau = this.getCompressTimeEff();
+
+        const yellowOpen = this.yellowOpenedAt ?? tau * Math.log(1 / (1 - YELLOW_ZONE_PROXIMITY));
+
+        let peak = this.peakReachedAt;
+        if (peak === null) {
+            // Peak = yellow duration runs out, or compression settles within peakEps (whichever first)
+            const eps = (ground.peakEps ?? 1.0) as number;
+            const gapAtYellow = (1 - YELLOW_ZONE_PROXIMITY) * this.targetCompression;
+            const toEps = gapAtYellow > eps ? tau * Math.log(gapAtYellow / eps) : 0;
+            peak = yellowOpen + Math.min(this.getYellowDurationEff(), toEps);
+        }
+
+        return { start: yellowOpen, end: peak + this.getSweetGraceEff() };
+    }
+
+    /**
+     * Release time as the player made it: now, minus the calibrated input latency
+     */
+    public getJudgedReleaseTime(): number {
+        return this.chargeElapsed - this.inputOffsetSec;
+    }
+
+    /**
+     * Signed release timing vs the center of the PERFECT window (ms, negative = early, positive = late)
+     */
+    public getReleaseOffsetMs(): number {
+        const window = this.getPerfectWindow();
+        const center = (window.start + window.end) / 2;
+        return (this.getJudgedReleaseTime() - center) * 1000;
+    }
+
+    /**
+     * Yellow zone duration for the current landing
+     * yellowDuration = yellowDuration0 / (1 + difficultyLogScale * log2(1 + apex/difficultyRefHeight))
+     */
+    public getYellowDurationEff(): number {
+        const ground = GameConfig.ground as any;
+        const yellowDur0 = (ground.yellowDuration0 ?? 0.15) as number;
+        const yellowDurMin = (ground.yellowDurationMin ?? 0.03) as number;
+        const logScale = (ground.difficultyLogScale ?? 0.8) as number;
+        const Href = (ground.difficultyRefHeight ?? 5000) as number;
+
+        const logFactor = 1 + logScale * Math.log2(1 + this.landingApexHeight / Math.max(1, Href));
+        return Math.max(yellowDurMin, yellowDur0 / logFactor) * this.timingWindowScale;
+    }
+
+    /**
+     * Time progress (0..1) from touchdown to the start of the yellow zone
+     *
+     * Compression approaches its target exponentially from 0 (p = 1 - e^(-t/tau)),
+     * so elapsed / timeToYellow = ln(1 - p) / ln(1 - YELLOW_ZONE_PROXIMITY) whatever the dt sequence.
+     * Reaches exactly 1 on the step isInYellowZone turns on; stays 1 afterwards.
+     */
+    public getYellowZoneProgress(): number {
+        if (this.state !== 'GROUND_CHARGING') return 0;
+        if (this.isInYellowZone || this.reachedPeak) return 1;
+
+        const proximity = this.currentCompression / Math.max(1e-6, this.targetCompression);
+        if (proximity > YELLOW_ZONE_PROXIMITY) return 1;
+        return clamp(Math.log(1 - proximity) / Math.log(1 - YELLOW_ZONE_PROXIMITY), 0, 1);
+    }
+
+    /**
+     * Post-peak sweet grace window for the current landing (shrinks with difficulty)
+     */
+    public getSweetGraceEff(): number {
+        const ground = GameConfig.ground as any;
+        const diff = this.landingDifficulty ?? 1;
+        const sweet0 = (ground.sweetHoldGrace0 ?? ground.sweetHoldGrace ?? 0.08) as number;
+        const sweetMin = (ground.sweetHoldGraceMin ?? 0.02) as number;
+        return clamp(sweet0 / diff, sweetMin, sweet0) * this.timingWindowScale;
+    }
+
+    /**
+     * Check if player should die due to missed bounce timing (holdLockout above 100m).
+     * If death occurs, reports to health model and transitions to GROUNDED_IDLE.
+     * Returns true if death occurred, false otherwise.
+     */
+    private checkMissedBounceDeath(events: SimStepEvents): boolean {
+        if (!this.holdLockout) {
+            return false;
+        }
+
+        // Check if landing was from above the safe zone
+        if (this.health.isAboveSafeZone(this.landingApexHeight)) {
+            // Report to health model - this will set isDead = true
+            this.health.onLanding(this.landingApexHeight, 'FAILED', true);
+            events.rating = 'FAILED';
+            this.perfectStreak = 0;
+            this.transitionTo('GROUNDED_IDLE');
+            return true;
+        }
+
+        return false;
+    }
+
+    // ----------------------------------------
+    // Launch Logic
+    // ----------------------------------------
+    private tryLaunchActiveOrSettle(events: SimStepEvents) {
+        const ground = GameConfig.ground as any;
+        const settleEps = (ground.settleEps ?? 0.5) as number;
+
+        if (this.currentCompression <= settleEps) {
+            this.perfectStreak = 0;  // Reset combo on failure
+            this.transitionTo('GROUNDED_IDLE');
+            return;
+        }
+
+        if (this.holdLockout) {
+            // ===== DEATH CHECK: Held too long above the safe zone (100m) = death =====
+            const PIXELS_PER_METER = GameConfig.display.pixelsPerMeter ?? 50;
+            const heightMeters = this.landingApexHeight / PIXELS_PER_METER;
+
+            if (this.health.isAboveSafeZone(this.landingApexHeight)) {
+                // Player held too long - instant death
+                this.health.onLanding(this.landingApexHeight, 'FAILED', true);
+                events.rating = 'FAILED';
+                events.releaseOffsetMs = this.getReleaseOffsetMs();
+                if (GameConfig.debug) {
+                    console.log(`[DEATH] Held too long from ${heightMeters.toFixed(0)}m`);
+                }
+            }
+
+            this.perfectStreak = 0;  // Reset combo on failure
+            this.transitionTo('GROUNDED_IDLE');
+            return;
+        }
+
+        const deadEff = (ground.deadEfficiency ?? 0.05) as number;
+        if (this.chargeEfficiency <= deadEff) {
+            this.transitionTo('GROUNDED_IDLE');
+            return;
+        }
+
+        this.launchActiveControlled(events);
+    }
+
+    private launchActiveControlled(events: SimStepEvents) {
+        const ground = GameConfig.ground as any;
+
+        // ===== DETERMINE RATING based on when player released =====
+        // Perfect = released during yellow zone (proximity > 0.9 && !reachedPeak at release time)
+        // Normal = released early (before yellow) OR released slightly late (after peak but within grace)
+        // Failed = holdLockout (held way too long)
+
+        let rating: LaunchRating;
+
+        // Check if released during yellow zone
+        // Yellow zone = proximity > 0.9 (high compression ratio)
+        const proximity = this.currentCompression / Math.max(1e-6, this.targetCompression);
+        const wasInYellowZone = this.isInYellowZone && !this.reachedPeak;
+
+        // ===== DYNAMIC DIFFICULTY FOR PERFECT JUDGMENT =====
+        // Use the same dynamic window calculation as in stepCharging()
+        // This ensures Perfect judgment is consistent with difficulty scaling
+        const sweetGraceEff = this.getSweetGraceEff();
+
+        // If holdLockout, it's FAILED
+        if (this.holdLockout || this.chargeEfficiency <= (ground.deadEfficiency ?? 0.05)) {
+            rating = 'FAILED';
+        } else if (wasInYellowZone || (proximity > 0.9 && !this.reachedPeak)) {
+            // Released in yellow zone = PERFECT
+            rating = 'PERFECT';
+        } else if (this.reachedPeak && this.postPeakHoldTime <= sweetGraceEff) {
+            // Released just after peak within DYNAMIC sweet grace = still PERFECT
+            rating = 'PERFECT';
+        } else {
+            // Everything else = NORMAL (early release or slightly late)
+            rating = 'NORMAL';
+        }
+
+        // ===== INPUT LATENCY COMPENSATION =====
+        // With a calibrated offset the release is judged against the window timestamps
+        // at the moment the player actually let go (held-too-long failures stay failures)
+        if (this.inputOffsetSec !== 0 && rating !== 'FAILED') {
+            const releasedAt = this.getJudgedReleaseTime();
+            const window = this.getPerfectWindow();
+            rating = releasedAt >= window.start && releasedAt <= window.end ? 'PERFECT' : 'NORMAL';
+        }
+
+        // ===== ANTI-EXPLOIT: No fast-fall = no PERFECT above safe zone =====
+        // Player must actually participate in fast-fall to get PERFECT rating
+        const PIXELS_PER_METER = GameConfig.display.pixelsPerMeter ?? 50;
+        const fallDist = Math.max(1, this.landingFallDistance);
+        const fastDist = this.landingFastFallDistance || 0;
+        const fastFallRatio = fastDist / fallDist;
+
+        // If above the safe zone and didn't fast-fall at least 30% of distance, downgrade PERFECT
+        if (this.health.isAboveSafeZone(this.landingApexHeight) && fastFallRatio < 0.3 && rating === 'PERFECT') {
+            rating = 'NORMAL'; // Must participate to get PERFECT
+            if (GameConfig.debug) {
+                console.log(`[ANTI-EXPLOIT] Downgraded PERFECT to NORMAL: fastFallRatio=${fastFallRatio.toFixed(2)}`);
+            }
+        }
+
+        const g = GameConfig.gravity;
+
+        // ===== UPDATE STREAK COUNTER =====
+        if (rating === 'PERFECT') {
+            this.perfectStreak++;
+        } else {
+            this.perfectStreak = 0; // Reset streak on non-perfect
+        }
+
+        // ===== HEALTH SYSTEM: Report landing to health model =====
+        this.health.onLanding(this.lastApexHeight, rating, this.holdLockout);
+
+        // Check if slime died from this landing
+        if (this.health.isDead) {
+            // Don't launch - slime is dead
+            // Reset to idle state (death will be handled by GameScene)
+            this.transitionTo('GROUNDED_IDLE');
+            return;
+        }
+
+        // ===== DISTANCE-BASED ENERGY RATIO (prevents "last second charge" exploit) =====
+        // Use actual fall distance instead of just lastApexHeight
+        const growth = GameConfig.ground.growth;
+        const fallDistance = Math.max(1, this.landingFallDistance || this.lastApexHeight);
+        const pressRatio = clamp(Math.max(0, this.landingFastFallDistance || 0) / fallDistance, 0, 1);
+
+        const potentialEnergy = GameConfig.gravity * fallDistance;
+        const energyRatioRaw = clamp(this.fastFallEnergy / Math.max(1, potentialEnergy), 0, 1);
+
+        // Dynamic time threshold: scales with fall distance to prevent high-altitude last-0.25s exploit
+        const baseNeedTime = (GameConfig.air.fastFallChargeTime ?? 0.25) as number;
+        const dynamicNeedTime = clamp(baseNeedTime + 0.00005 * fallDistance, baseNeedTime, 1.25);
+        const timeFactor = clamp(this.fastFallTime / Math.max(1e-6, dynamicNeedTime), 0, 1);
+
+        // Final energy ratio = energyRaw * pressRatio * timeFactor
+        // Must hold space for significant portion of DISTANCE, not just time
+        const energyRatio = clamp(energyRatioRaw * pressRatio * timeFactor, 0, 1);
+
+        // ===== GROWTH MODEL (GameConfig.ground.growth) =====
+        // PERFECT grows with fast-fall energy, NORMAL / FAILED keep a share of the height
+        let targetH = getLaunchModel(growth.model).targetHeight({
+            rating,
+            apexHeight: this.lastApexHeight,
+            energyRatio,
+            pressRatio,
+            streak: this.perfectStreak,
+        }, growth);
+
+        if (GameConfig.debug) {
+            console.log(`[${rating}] H:${Math.round(this.lastApexHeight)} E:${energyRatio.toFixed(2)} Press:${(pressRatio * 100).toFixed(0)}% -> ${Math.round(targetH)}`);
+        }
+
+        // Ensure minimum launch
+        targetH = Math.max(targetH, growth.minLaunchHeightPx);
+
+        const vTarget = Math.sqrt(2 * g * targetH);
+        let vLaunch = vTarget;
+
+        // ===== CAPS =====
+        vLaunch = Math.max(vLaunch, Math.abs(GameConfig.ground.baseLaunchVelocity));
+
+        // Hard cap applies to everyone
+        vLaunch = Math.min(vLaunch, GameConfig.ground.hardCapVelocity);
+
+        // ===== DEBUG OUTPUT =====
+        if (GameConfig.debug) {
+            console.log(`[Launch] Rating:${rating} Streak:${this.perfectStreak} Apex:${Math.round(this.lastApexHeight)}px -> TargetH:${Math.round(targetH)}px`);
+        }
+
+        this.vy = -vLaunch;
+
+        // ===== AUTO BULLET TIME CALCULATION =====
+        // Physics: apex height = v^2 / (2g) where v = vLaunch
+        const predictedApexPx = (vLaunch * vLaunch) / (2 * g);
+        const predictedApexMeters = predictedApexPx / PIXELS_PER_METER;
+
+        // Store launch position and predicted apex
+        this.launchY = this.getGroundY();
+        this.predictedApexHeight = predictedApexPx;
+        this.autoBTActivated = false;
+
+        // Eligibility: PERFECT judgment AND predicted apex > 50 meters
+        this.autoBTEligible = (rating === 'PERFECT') && (predictedApexMeters > 50);
+
+        if (GameConfig.debug && this.autoBTEligible) {
+            console.log(`[AutoBT] Eligible! Predicted apex: ${Math.round(predictedApexMeters)}m`);
+        }
+
+        events.rating = rating;
+        events.releaseOffsetMs = this.getReleaseOffsetMs();
+        events.launch = {
+            rating,
+            streak: this.perfectStreak,
+            targetHeight: targetH,
+            launchVelocity: vLaunch,
+            predictedApexHeight: predictedApexPx,
+            autoBulletTime: this.autoBTEligible,
+        };
+
+        this.transitionTo('AIRBORNE');
+        this.currentCompression = 0;
+        this.y = this.getGroundY() - 0.5;
+        this.contactHasInput = false;
+        this.reachedPeak = false;
+        this.postPeakHoldTime = 0;
+        this.holdLockout = false;
+        this.isInYellowZone = false;
+        this.prevVyForApex = this.vy;
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,53 @@
+import type { DifficultyId } from '../overlays/DifficultyPresets';
+
+/**
+ * Leaderboard - 本地前 10 名排行榜 (同一台设备上的多名玩家)
+ *
+ * 纯数据规则：排序、是否上榜、插入新纪录。存储由 ProfileStore 负责。
+ */
+
+export const LEADERBOARD_SIZE = 10;
+export const MAX_PLAYER_NAME_LENGTH = 12;
+
+export interface LeaderboardEntry {
+    name: string;
+    heightM: number;        // Best head height of the run (meters)
+    perfects: number;       // PERFECT landings in the run
+    kills: number;          // Monsters killed in the run
+    date: number;           // Run end time (ms since epoch)
+    seed: number | null;    // RNG seed, lets others retry the same run (?seed=)
+    assist: boolean;        // Run played with assist mode
+    difficulty: DifficultyId;   // Difficulty preset of the run
+}
+
+/**
+ * Ranking order: height, then perfects, then the earlier run wins ties
+ */
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+    return (b.heightM - a.heightM) || (b.perfects - a.perfects) || (a.date - b.date);
+}
+
+/**
+ * Rank (0-based) a run would get, or null if it does not make the board
+ */
+export function getLeaderboardRank(entries: readonly LeaderboardEntry[], candidate: LeaderboardEntry): number | null {
+    if (candidate.heightM <= 0) return null;
+
+    const rank = entries.filter((entry) => compareEntries(entry, candidate) <= 0).length;
+    return rank < LEADERBOARD_SIZE ? rank : null;
+}
+
+/**
+ * New sorted board with the entry inserted (capped at LEADERBOARD_SIZE)
+ */
+export function insertLeaderboardEntry(entries: readonly LeaderboardEntry[], entry: LeaderboardEntry): LeaderboardEntry[] {
+    return [...entries, entry].sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+}
+
+/**
+ * Trim and cap a typed player name (falls back when empty)
+ */
+export function sanitizePlayerName(name: string, fallback: string): string {
+    const trimmed = name.replace(/\s+/g, ' ').trim().slice(0, MAX_PLAYER_NAME_LENGTH);
+    return trimmed || fallback;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { PROFILE_VERSION, createDefaultProfile, migrateProfile } from './ProfileStore';
+
+describe('migrateProfile', () => {
+    it('upgrades a v1 profile and fills in the newer fields', () => {
+        const profile = migrateProfile({
+            version: 1,
+            bestHeightM: 420,
+            lifetime: { totalRuns: 3, totalPlayTimeSec: 90, totalHeightM: 600 },
+            settings: { masterVolume: 0.5 },
+            runHistory: [{ date: 1, heightM: 420, durationSec: 30, seed: 7 }],
+            ghost: null,
+        });
+
+        expect(profile.version).toBe(PROFILE_VERSION);
+        expect(profile.bestHeightM).toBe(420);
+        expect(profile.runHistory[0].stats).toBeNull();
+        expect(profile.settings).toEqual({ ...createDefaultProfile().settings, masterVolume: 0.5 });
+        expect(profile.leaderboard).toEqual([]);
+    });
+
+    it('starts fresh on unknown or newer data', () => {
+        expect(migrateProfile(null)).toEqual(createDefaultProfile());
+        expect(migrateProfile({ version: PROFILE_VERSION + 1, bestHeightM: 5 })).toEqual(createDefaultProfile());
+    });
+});
@@ -0,0 +1,328 @@
+import { GameConfig } from '../config';
+import type { GhostTrack } from '../objects/GhostRunner';
+import type { RunStats } from '../sim/RunStats';
+import { insertLeaderboardEntry } from './Leaderboard';
+import type { LeaderboardEntry } from './Leaderboard';
+import type { AssistOptions } from '../sim/Assist';
+import { isDifficultyId } from '../overlays/DifficultyPresets';
+import type { CustomDifficulty, DifficultyId } from '../overlays/DifficultyPresets';
+
+/**
+ * ProfileStore - 持久化玩家档案 (最高记录 / 生涯统计 / 设置 / 最近对局)
+ *
+ * - localStorage 持久化，不可用时 (隐私模式、禁用存储) 回退到内存存储
+ * - 档案带版本号，读取旧版本时按 MIGRATIONS 逐级升级
+ * - 所有字段都有默认值，缺失字段读取时自动补齐
+ */
+
+export const PROFILE_VERSION = 2;
+export const MAX_RUN_HISTORY = 20;
+const STORAGE_KEY = 'slime-jump.profile';
+
+export interface RunSummary {
+    date: number;           // Run end time (ms since epoch)
+    heightM: number;        // Best head height of the run (meters)
+    durationSec: number;    // Played time (real seconds)
+    seed: number;           // RNG seed (reproduce with ?seed=)
+    stats: RunStats | null; // End-of-run breakdown (null for runs saved before v2)
+}
+
+export interface LifetimeStats {
+    totalRuns: number;
+    totalPlayTimeSec: number;
+    totalHeightM: number;   // Sum of every run's best height
+}
+
+export type HeightUnit = 'm' | 'ft';
+export type LanguageSetting = 'auto' | 'zh' | 'en';
+
+export interface ProfileSettings {
+    masterVolume: number;       // 0..1
+    sfxVolume: number;          // 0..1
+    musicVolume: number;        // 0..1
+    muted: boolean;             // Silences all audio regardless of the volumes
+    cameraShake: boolean;       // Camera + ground shake on/off
+    shakeIntensity: number;     // Shake multiplier (0..1.5)
+    reducedMotion: boolean;     // No shake (regardless of the above); blinks, pulses and flashes become static cues
+    heightUnit: HeightUnit;
+    language: LanguageSetting;
+    inputSensitivity: number;   // Gesture threshold divisor (0.5..1.5, higher = more sensitive)
+    timingTick: boolean;        // Rising audio tick counting down to the yellow zone
+    timingRing: boolean;        // Closing ring around the slime while charging
+    colorblindMode: boolean;    // Blue/orange charge palette with pattern cues
+    inputOffsetMs: number;      // Calibrated input latency of this device (ms, + = releases arrive late)
+    assistMode: boolean;        // Accessibility assist (widened timing windows)
+    assistWindowScale: number;  // Timing window multiplier while assisted (1..3)
+    assistNoInstantDeath: boolean;  // Assist also turns instant deaths into heavy hits
+    difficulty: DifficultyId;   // Preset chosen on the start screen
+    customTimingScale: number;  // Custom preset: timing window multiplier (0.5..2)
+    customMonsterScale: number; // Custom preset: monster count / speed multiplier (0.5..2)
+    customDamageScale: number;  // Custom preset: fall damage multiplier (0..2)
+}
+
+export type SettingsListener = (settings: Readonly<ProfileSettings>) => void;
+
+/**
+ * Effective shake multiplier (0 = no shake at all)
+ */
+export function getShakeScale(settings: Readonly<ProfileSettings>): number {
+    if (!settings.cameraShake || settings.reducedMotion) return 0;
+    return settings.shakeIntensity;
+}
+
+/**
+ * Assist options for a new run (null = assist off)
+ */
+export function getAssistOptions(settings: Readonly<ProfileSettings>): AssistOptions | null {
+    if (!settings.assistMode) return null;
+    return { windowScale: settings.assistWindowScale, noInstantDeath: settings.assistNoInstantDeath };
+}
+
+/**
+ * Difficulty preset for a new run (unknown stored ids fall back to normal)
+ */
+export function getDifficulty(settings: Readonly<ProfileSettings>): DifficultyId {
+    return isDifficultyId(settings.difficulty) ? settings.difficulty : 'normal';
+}
+
+/**
+ * Multipliers of the custom difficulty preset
+ */
+export function getCustomDifficulty(settings: Readonly<ProfileSettings>): CustomDifficulty {
+    return {
+        timingScale: settings.customTimingScale,
+        monsterScale: settings.customMonsterScale,
+        damageScale: settings.customDamageScale,
+    };
+}
+
+export interface Profile {
+    version: number;
+    bestHeightM: number;
+    lifetime: LifetimeStats;
+    settings: ProfileSettings;
+    runHistory: RunSummary[];       // Newest first, capped at MAX_RUN_HISTORY
+    ghost: GhostTrack | null;       // Trajectory of the best run
+    leaderboard: LeaderboardEntry[];    // Local top 10, best first
+    lastPlayerName: string;             // Prefills the leaderboard name prompt
+}
+
+/** Minimal key/value storage (subset of the Web Storage API) */
+export interface StorageBackend {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+}
+
+/**
+ * In-memory storage used when localStorage is unavailable (data lasts for the session only)
+ */
+export class MemoryStorage implements StorageBackend {
+    private items = new Map<string, string>();
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+}
+
+/**
+ * Schema migrations: MIGRATIONS[n] upgrades a version-n profile to version n+1
+ * Bump PROFILE_VERSION (and add an entry here) only when a stored field changes shape;
+ * new top-level fields and settings are filled in from the defaults by migrateProfile.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    // v2: run summaries carry the end-of-run stats breakdown
+    1: (data) => ({
+        ...data,
+        runHistory: (data.runHistory ?? []).map((run: any) => ({ ...run, stats: null })),
+    }),
+};
+
+export function createDefaultProfile(): Profile {
+    return {
+        version: PROFILE_VERSION,
+        bestHeightM: 0,
+        lifetime: {
+            totalRuns: 0,
+            totalPlayTimeSec: 0,
+            totalHeightM: 0,
+        },
+        settings: {
+            masterVolume: 1,
+            sfxVolume: 0.8,
+            musicVolume: 0.6,
+            muted: false,
+            cameraShake: GameConfig.cameraShake.enable,
+            shakeIntensity: 1,
+            reducedMotion: false,
+            heightUnit: 'm',
+            language: 'auto',
+            inputSensitivity: 1,
+            timingTick: false,
+            timingRing: true,
+            colorblindMode: false,
+            inputOffsetMs: 0,
+            assistMode: false,
+            assistWindowScale: 2,
+            assistNoInstantDeath: true,
+            difficulty: 'normal',
+            customTimingScale: 1,
+            customMonsterScale: 1,
+            customDamageScale: 1,
+        },
+        runHistory: [],
+        ghost: null,
+        leaderboard: [],
+        lastPlayerName: '',
+    };
+}
+
+/**
+ * Upgrade stored data to the current schema and fill in missing fields
+ */
+export function migrateProfile(data: any): Profile {
+    const defaults = createDefaultProfile();
+    if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+        return defaults;
+    }
+
+    if (data.version > PROFILE_VERSION) {
+        console.warn(`[Profile] Saved profile v${data.version} is newer than supported v${PROFILE_VERSION}, starting fresh`);
+        return defaults;
+    }
+
+    let migrated = data;
+    while (migrated.version < PROFILE_VERSION) {
+        const migrate = MIGRATIONS[migrated.version];
+        if (!migrate) {
+            console.warn(`[Profile] No migration from v${migrated.version}, starting fresh`);
+            return defaults;
+        }
+        migrated = { ...migrate(migrated), version: migrated.version + 1 };
+    }
+
+    return {
+        version: PROFILE_VERSION,
+        bestHeightM: typeof migrated.bestHeightM === 'number' ? migrated.bestHeightM : defaults.bestHeightM,
+        lifetime: { ...defaults.lifetime, ...migrated.lifetime },
+        settings: { ...defaults.settings, ...migrated.settings },
+        runHistory: Array.isArray(migrated.runHistory) ? migrated.runHistory.slice(0, MAX_RUN_HISTORY) : [],
+        ghost: migrated.ghost ?? null,
+        leaderboard: Array.isArray(migrated.leaderboard) ? migrated.leaderboard : [],
+        lastPlayerName: typeof migrated.lastPlayerName === 'string' ? migrated.lastPlayerName : '',
+    };
+}
+
+/**
+ * localStorage if it is usable, otherwise an in-memory fallback
+ */
+function detectStorage(): StorageBackend {
+    try {
+        const probe = '__slime_jump_probe__';
+        window.localStorage.setItem(probe, probe);
+        window.localStorage.removeItem(probe);
+        return window.localStorage;
+    } catch {
+        console.warn('[Profile] localStorage unavailable, progress will not survive a reload');
+        return new MemoryStorage();
+    }
+}
+
+export class ProfileStore {
+    private readonly storage: StorageBackend;
+    private readonly key: string;
+    private data: Profile;
+    private settingsListeners = new Set<SettingsListener>();
+
+    constructor(storage: StorageBackend = detectStorage(), key: string = STORAGE_KEY) {
+        this.storage = storage;
+        this.key = key;
+        this.data = this.load();
+    }
+
+    public get profile(): Readonly<Profile> {
+        return this.data;
+    }
+
+    /**
+     * Record a finished run: updates best height, lifetime stats and history, then saves
+     * @returns true if the run set a new best height
+     */
+    public recordRun(summary: RunSummary, ghost?: GhostTrack): boolean {
+        const isNewBest = summary.heightM > this.data.bestHeightM;
+        if (isNewBest) {
+            this.data.bestHeightM = summary.heightM;
+            if (ghost) {
+                this.data.ghost = ghost;
+            }
+        }
+
+        const lifetime = this.data.lifetime;
+        lifetime.totalRuns++;
+        lifetime.totalPlayTimeSec += summary.durationSec;
+        lifetime.totalHeightM += summary.heightM;
+
+        this.data.runHistory.unshift(summary);
+        this.data.runHistory.length = Math.min(this.data.runHistory.length, MAX_RUN_HISTORY);
+
+        this.save();
+        return isNewBest;
+    }
+
+    /**
+     * Add a run to the local leaderboard (caller checks getLeaderboardRank first)
+     * @returns 0-based rank of the new entry, or null if it did not make the board
+     */
+    public addLeaderboardEntry(entry: LeaderboardEntry): number | null {
+        this.data.leaderboard = insertLeaderboardEntry(this.data.leaderboard, entry);
+        this.data.lastPlayerName = entry.name;
+        this.save();
+
+        const rank = this.data.leaderboard.indexOf(entry);
+        return rank === -1 ? null : rank;
+    }
+
+    public updateSettings(patch: Partial<ProfileSettings>): void {
+        this.data.settings = { ...this.data.settings, ...patch };
+        this.save();
+        this.settingsListeners.forEach((listener) => listener(this.data.settings));
+    }
+
+    /**
+     * Get notified when settings change (applied live)
+     * @returns Unsubscribe function
+     */
+    public onSettingsChanged(listener: SettingsListener): () => void {
+        this.settingsListeners.add(listener);
+        return () => this.settingsListeners.delete(listener);
+    }
+
+    public save(): void {
+        try {
+            this.storage.setItem(this.key, JSON.stringify(this.data));
+        } catch (error) {
+            // Quota exceeded etc. - keep playing with the in-memory copy
+            console.warn('[Profile] Failed to save profile', error);
+        }
+    }
+
+    private load(): Profile {
+        const raw = this.storage.getItem(this.key);
+        if (!raw) {
+            return createDefaultProfile();
+        }
+
+        try {
+            return migrateProfile(JSON.parse(raw));
+        } catch {
+            console.warn('[Profile] Corrupted profile, starting fresh');
+            return createDefaultProfile();
+        }
+    }
+}
+
+/** Shared profile for all scenes */
+export const profileStore = new ProfileStore();